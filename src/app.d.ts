@@ -1,12 +1,39 @@
+import type { KVNamespaceLike } from '$lib/server/vitals/store';
+import type { SEOMeta } from '$lib/seo/utils';
+
 // See https://svelte.dev/docs/kit/types#app.d.ts
 // for information about these interfaces
 declare global {
+	// Present when gtag.js is loaded
+	var gtag: ((...args: unknown[]) => void) | undefined;
+
 	namespace App {
 		// interface Error {}
-		// interface Locals {}
-		// interface PageData {}
-		// interface PageState {}
-		// interface Platform {}
+		interface Locals {
+			// Set by the handle hook from basic auth; /admin answers 401 unless it is true
+			admin: boolean;
+		}
+		interface PageData {
+			// Declared by a page's load function and rendered by <Seo> in the root layout
+			meta?: SEOMeta;
+		}
+		interface PageState {
+			// Set by the header nav drawer so the back button closes it
+			navOpen?: boolean;
+		}
+		namespace Superforms {
+			// Status shown as a toast after a form submission
+			type Message = { type: 'success' | 'error'; text: string };
+		}
+		interface Platform {
+			env?: {
+				WEB_VITALS_KV?: KVNamespaceLike;
+				ANALYTICS_EVENTS_KV?: KVNamespaceLike;
+				CONTACT_KV?: KVNamespaceLike;
+				LEADS_KV?: KVNamespaceLike;
+				BOOKINGS_KV?: KVNamespaceLike;
+			};
+		}
 	}
 }
 
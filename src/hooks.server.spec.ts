@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { RequestEvent } from '@sveltejs/kit';
+import { handle } from './hooks.server';
+
+vi.mock('$env/dynamic/private', () => ({ env: { ADMIN_PASSWORD: 'secret' } }));
+
+function run(path: string, authorization?: string) {
+	const event = {
+		url: new URL(path, 'http://localhost'),
+		request: new Request(new URL(path, 'http://localhost'), { headers: authorization ? { authorization } : {} }),
+		locals: {}
+	} as unknown as RequestEvent;
+	const resolve = vi.fn(async () => new Response('ok'));
+	return { event, resolve, response: handle({ event, resolve }) };
+}
+
+const basic = (value: string) => `Basic ${Buffer.from(value).toString('base64')}`;
+
+describe('handle', () => {
+	it.each(['/admin/vitals', '/admin/vitals/__data.json', '/admin/bookings'])('challenges %s without credentials', async (path) => {
+		const { resolve, response } = run(path);
+
+		expect((await response).status).toBe(401);
+		expect(resolve).not.toHaveBeenCalled();
+	});
+
+	it('serves the dashboard to the admin', async () => {
+		const { event, resolve, response } = run('/admin/vitals', basic('admin:secret'));
+
+		expect((await response).status).toBe(200);
+		expect(resolve).toHaveBeenCalledOnce();
+		expect(event.locals.admin).toBe(true);
+	});
+
+	it('leaves public pages alone', async () => {
+		const { event, response } = run('/services', basic('admin:wrong'));
+
+		expect((await response).status).toBe(200);
+		expect(event.locals.admin).toBe(false);
+	});
+});
@@ -0,0 +1,13 @@
+import type { Handle } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { adminChallenge, adminCredentials, isAdmin, isAdminPath } from '$lib/server/admin-auth';
+
+export const handle: Handle = async ({ event, resolve }) => {
+  event.locals.admin = isAdmin(event.request.headers.get('authorization'), adminCredentials(env));
+
+  if (isAdminPath(event.url.pathname) && !event.locals.admin) {
+    return adminChallenge();
+  }
+
+  return resolve(event);
+};
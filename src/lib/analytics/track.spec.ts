@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setConsent } from '$lib/consent';
+import { configureAnalytics, createAdapter, observeScrollDepth, track, type AnalyticsAdapter } from './track';
+
+describe('track', () => {
+	let cookie: string;
+	let send: ReturnType<typeof vi.fn<AnalyticsAdapter['send']>>;
+
+	beforeEach(() => {
+		cookie = '';
+		send = vi.fn();
+		vi.stubGlobal('window', {});
+		vi.stubGlobal('navigator', {});
+		vi.stubGlobal('location', { href: 'https://taitmedia.com/', protocol: 'https:' });
+		vi.stubGlobal('document', {
+			get cookie() {
+				return cookie;
+			},
+			set cookie(value: string) {
+				cookie = value.split(';')[0];
+			}
+		});
+		configureAnalytics({ send });
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('sends events through the configured adapter once analytics is allowed', () => {
+		setConsent({ analytics: true, marketing: false });
+
+		track('cta_click', { cta: 'prove_it', location: 'lead-gen' });
+
+		expect(send).toHaveBeenCalledWith(
+			'cta_click',
+			{ cta: 'prove_it', location: 'lead-gen' },
+			{ url: 'https://taitmedia.com/' }
+		);
+	});
+
+	it('drops events without analytics consent', () => {
+		setConsent({ analytics: false, marketing: false });
+
+		track('menu_open', { source: 'header' });
+
+		expect(send).not.toHaveBeenCalled();
+	});
+
+	it('posts to our own endpoint with the api adapter', () => {
+		const fetchMock = vi.fn(() => Promise.resolve(new Response(null, { status: 204 })));
+		vi.stubGlobal('fetch', fetchMock);
+		setConsent({ analytics: true, marketing: false });
+		configureAnalytics({ adapter: 'api' });
+
+		track('scroll_chevron_click', { target: '#about-tagline' });
+
+		expect(fetchMock).toHaveBeenCalledWith('/api/analytics/events', expect.objectContaining({ method: 'POST' }));
+	});
+
+	it('creates no adapter when analytics is disabled in the site config', () => {
+		expect(createAdapter({ adapter: 'none' })).toBeUndefined();
+	});
+
+	it('only counts scroll depth milestones once they are sent', () => {
+		let top = 0;
+		const section = { id: 'services', getAttribute: () => null, getBoundingClientRect: () => ({ top, height: 1000 }) };
+		const root = { querySelectorAll: () => [section] } as unknown as ParentNode;
+		const scroll = new EventTarget();
+		vi.stubGlobal('window', { innerHeight: 600 });
+		vi.stubGlobal('addEventListener', scroll.addEventListener.bind(scroll));
+		vi.stubGlobal('removeEventListener', scroll.removeEventListener.bind(scroll));
+		const frames: FrameRequestCallback[] = [];
+		vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => frames.push(callback));
+		vi.stubGlobal('cancelAnimationFrame', () => {});
+		const scrollTo = (value: number) => {
+			top = value;
+			scroll.dispatchEvent(new Event('scroll'));
+			frames.splice(0).forEach((callback) => callback(0));
+		};
+		setConsent({ analytics: false, marketing: false });
+
+		const stop = observeScrollDepth(root);
+		expect(send).not.toHaveBeenCalled();
+
+		setConsent({ analytics: true, marketing: false });
+		scrollTo(-200);
+
+		expect(send.mock.calls.map(([, props]) => props)).toEqual([
+			{ section: 'services', depth: 25 },
+			{ section: 'services', depth: 50 },
+			{ section: 'services', depth: 75 }
+		]);
+
+		scrollTo(-300);
+		expect(send).toHaveBeenCalledTimes(3);
+		stop();
+	});
+});
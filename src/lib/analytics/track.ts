@@ -0,0 +1,202 @@
+/**
+ * Provider-agnostic analytics events
+ * Pages call track(); the adapter picked in the site config decides where events go
+ */
+
+import { hasConsent } from '$lib/consent';
+
+export interface AnalyticsEvents {
+  cta_click: { cta: string; location: string };
+  menu_open: { source: string };
+  menu_link_click: { href: string; label: string };
+  scroll_chevron_click: { target: string };
+  section_scroll_depth: { section: string; depth: number };
+  lead_step_complete: { step: string; index: number };
+  lead_submit: { tier: string };
+}
+
+export type AnalyticsEventName = keyof AnalyticsEvents;
+
+export type AnalyticsProps = Record<string, string | number | boolean>;
+
+export const ANALYTICS_EVENT_NAMES: readonly AnalyticsEventName[] = [
+  'cta_click',
+  'menu_open',
+  'menu_link_click',
+  'scroll_chevron_click',
+  'section_scroll_depth',
+  'lead_step_complete',
+  'lead_submit'
+];
+
+export interface AnalyticsAdapter {
+  send: (event: AnalyticsEventName, props: AnalyticsProps, context: { url: string }) => void;
+}
+
+export type AnalyticsConfig =
+  | { adapter: 'gtag' }
+  | { adapter: 'plausible'; domain: string; endpoint?: string }
+  | { adapter: 'api'; endpoint?: string }
+  | { adapter: 'none' };
+
+/**
+ * Google Analytics via an already loaded gtag.js
+ */
+export function createGtagAdapter(): AnalyticsAdapter {
+  return {
+    send: (event, props) => {
+      if (typeof gtag !== 'undefined') {
+        gtag('event', event, props);
+      }
+    }
+  };
+}
+
+/**
+ * Plausible-compatible event API
+ */
+export function createPlausibleAdapter(options: { domain: string; endpoint?: string }): AnalyticsAdapter {
+  const endpoint = options.endpoint ?? 'https://plausible.io/api/event';
+
+  return {
+    send: (event, props, { url }) => {
+      fetch(endpoint, {
+        method: 'POST',
+        // text/plain keeps this a simple request - no CORS preflight
+        headers: { 'Content-Type': 'text/plain' },
+        body: JSON.stringify({
+          name: event,
+          url,
+          domain: options.domain,
+          referrer: document.referrer || null,
+          props
+        }),
+        keepalive: true
+      }).catch(() => {
+        // Silently fail - don't break user experience
+      });
+    }
+  };
+}
+
+/**
+ * Our own /api/analytics/events endpoint
+ */
+export function createApiAdapter(options: { endpoint?: string } = {}): AnalyticsAdapter {
+  const endpoint = options.endpoint ?? '/api/analytics/events';
+
+  return {
+    send: (event, props, { url }) => {
+      fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ event, props, url, timestamp: Date.now() }),
+        keepalive: true
+      }).catch(() => {
+        // Silently fail - don't break user experience
+      });
+    }
+  };
+}
+
+/**
+ * Build the adapter named in the site config
+ */
+export function createAdapter(config: AnalyticsConfig): AnalyticsAdapter | undefined {
+  switch (config.adapter) {
+    case 'gtag':
+      return createGtagAdapter();
+    case 'plausible':
+      return createPlausibleAdapter(config);
+    case 'api':
+      return createApiAdapter(config);
+    case 'none':
+      return undefined;
+  }
+}
+
+let activeAdapter: AnalyticsAdapter | undefined;
+
+/**
+ * Select where tracked events are sent
+ */
+export function configureAnalytics(config: AnalyticsConfig | AnalyticsAdapter) {
+  activeAdapter = 'send' in config ? config : createAdapter(config);
+}
+
+/**
+ * Track an analytics event - dropped without analytics consent
+ * Returns whether the event was sent.
+ */
+export function track<E extends AnalyticsEventName>(event: E, props: AnalyticsEvents[E]): boolean {
+  if (!activeAdapter || typeof window === 'undefined' || !hasConsent('analytics')) {
+    return false;
+  }
+
+  activeAdapter.send(event, props, { url: location.href });
+  return true;
+}
+
+// Milestones reported for each section, as a fraction of the section scrolled past
+const SCROLL_DEPTH_MILESTONES = [0.25, 0.5, 0.75, 1];
+
+/**
+ * Name a section for reports: its heading id, its own id, its aria-label, or its position
+ */
+function getSectionName(section: Element, index: number): string {
+  return (
+    section.getAttribute('aria-labelledby')?.trim() ||
+    section.id ||
+    section.getAttribute('aria-label')?.trim() ||
+    `section-${index + 1}`
+  );
+}
+
+/**
+ * Report how far the visitor scrolls through each <section> on the page,
+ * once per milestone. Returns a cleanup function.
+ * A milestone only counts once it is sent, so consenting part way down still reports it.
+ */
+export function observeScrollDepth(root: ParentNode = document): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  const sections = Array.from(root.querySelectorAll('section'));
+  // Highest milestone sent for each section
+  const reported = new Map<Element, number>();
+  let frame: number | undefined;
+
+  const measure = () => {
+    frame = undefined;
+    const viewportBottom = window.innerHeight;
+
+    sections.forEach((section, index) => {
+      const rect = section.getBoundingClientRect();
+      if (rect.height === 0) return;
+
+      const seen = Math.min(1, Math.max(0, (viewportBottom - rect.top) / rect.height));
+
+      for (const milestone of SCROLL_DEPTH_MILESTONES) {
+        if (seen < milestone || (reported.get(section) ?? 0) >= milestone) continue;
+
+        const sent = track('section_scroll_depth', {
+          section: getSectionName(section, index),
+          depth: Math.round(milestone * 100)
+        });
+        if (!sent) break;
+        reported.set(section, milestone);
+      }
+    });
+  };
+
+  const onScroll = () => {
+    frame ??= requestAnimationFrame(measure);
+  };
+
+  addEventListener('scroll', onScroll, { passive: true });
+  measure();
+
+  return () => {
+    removeEventListener('scroll', onScroll);
+    if (frame !== undefined) cancelAnimationFrame(frame);
+  };
+}
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMetric } from '$lib/performance';
+import { createBeaconTransport } from './transport';
+
+const STORAGE_KEY = 'tms:vitals-queue';
+
+describe('createBeaconTransport', () => {
+	let doc: EventTarget & { visibilityState: DocumentVisibilityState };
+	let win: EventTarget;
+	let storage: Map<string, string>;
+	let sendBeacon: ReturnType<typeof vi.fn>;
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	const hide = () => {
+		doc.visibilityState = 'hidden';
+		doc.dispatchEvent(new Event('visibilitychange'));
+	};
+
+	const beaconBodies = async () =>
+		Promise.all(sendBeacon.mock.calls.map(async ([, blob]) => JSON.parse(await (blob as Blob).text())));
+
+	beforeEach(() => {
+		doc = Object.assign(new EventTarget(), { visibilityState: 'visible' as DocumentVisibilityState });
+		win = new EventTarget();
+		storage = new Map();
+		sendBeacon = vi.fn(() => true);
+		fetchMock = vi.fn(() => Promise.resolve(new Response(null, { status: 204 })));
+
+		vi.stubGlobal('document', doc);
+		vi.stubGlobal('addEventListener', win.addEventListener.bind(win));
+		vi.stubGlobal('removeEventListener', win.removeEventListener.bind(win));
+		vi.stubGlobal('navigator', { userAgent: 'test-agent', sendBeacon });
+		vi.stubGlobal('fetch', fetchMock);
+		vi.stubGlobal('localStorage', {
+			getItem: (key: string) => storage.get(key) ?? null,
+			setItem: (key: string, value: string) => storage.set(key, value),
+			removeItem: (key: string) => storage.delete(key)
+		});
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('batches updates and sends one deduped beacon per page when hidden', async () => {
+		const transport = createBeaconTransport();
+
+		transport.enqueue({ fcp: createMetric('fcp', 900) }, 'https://taitmedia.com/');
+		transport.enqueue({ cls: createMetric('cls', 0.01) }, 'https://taitmedia.com/');
+		transport.enqueue({ cls: createMetric('cls', 0.05) }, 'https://taitmedia.com/');
+		expect(sendBeacon).not.toHaveBeenCalled();
+
+		hide();
+
+		const bodies = await beaconBodies();
+		expect(bodies).toHaveLength(1);
+		expect(bodies[0]).toMatchObject({
+			url: 'https://taitmedia.com/',
+			userAgent: 'test-agent',
+			fcp: { value: 900 },
+			cls: { value: 0.05 }
+		});
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it('flushes reports that arrive after the page was hidden', () => {
+		const transport = createBeaconTransport();
+
+		win.dispatchEvent(new Event('pagehide'));
+		transport.enqueue({ inp: createMetric('inp', 120) }, 'https://taitmedia.com/work');
+
+		expect(sendBeacon).toHaveBeenCalledTimes(1);
+	});
+
+	it('falls back to keepalive fetch when sendBeacon refuses the payload', () => {
+		sendBeacon.mockReturnValue(false);
+		const transport = createBeaconTransport();
+
+		transport.enqueue({ lcp: createMetric('lcp', 1800) }, 'https://taitmedia.com/');
+		transport.flush();
+
+		expect(fetchMock).toHaveBeenCalledWith(
+			'/api/analytics/web-vitals',
+			expect.objectContaining({ method: 'POST', keepalive: true })
+		);
+	});
+
+	it('queues failed payloads and retries them on the next page load', async () => {
+		sendBeacon.mockReturnValue(false);
+		fetchMock.mockRejectedValueOnce(new TypeError('offline'));
+		const transport = createBeaconTransport();
+
+		transport.enqueue({ lcp: createMetric('lcp', 1800) }, 'https://taitmedia.com/');
+		transport.flush();
+		await vi.waitFor(() => expect(storage.has(STORAGE_KEY)).toBe(true));
+
+		const queued = JSON.parse(storage.get(STORAGE_KEY)!);
+		expect(queued).toHaveLength(1);
+		expect(queued[0].attempts).toBe(1);
+
+		fetchMock.mockClear();
+		createBeaconTransport();
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ lcp: { value: 1800 } });
+		expect(storage.has(STORAGE_KEY)).toBe(false);
+	});
+});
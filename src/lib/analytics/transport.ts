@@ -0,0 +1,178 @@
+/**
+ * Batched beacon transport for Web Vitals reports
+ * Collects metric updates per page and delivers them once, when the page is hidden or unloaded
+ */
+
+import type { WebVitalsReport } from '$lib/performance';
+
+export interface VitalsPayload extends WebVitalsReport {
+  url: string;
+  userAgent: string;
+  timestamp: number;
+}
+
+export interface AnalyticsTransport {
+  enqueue: (report: WebVitalsReport, pageUrl: string) => void;
+  flush: () => void;
+  dispose: () => void;
+}
+
+export interface BeaconTransportOptions {
+  endpoint?: string;
+  storageKey?: string;
+  maxQueued?: number; // Payloads kept for retry
+  maxAge?: number; // ms before a queued payload is dropped
+  maxAttempts?: number;
+}
+
+interface QueuedPayload {
+  body: string;
+  queuedAt: number;
+  attempts: number;
+}
+
+const DEFAULTS: Required<BeaconTransportOptions> = {
+  endpoint: '/api/analytics/web-vitals',
+  storageKey: 'tms:vitals-queue',
+  maxQueued: 20,
+  maxAge: 24 * 60 * 60 * 1000,
+  maxAttempts: 3
+};
+
+/**
+ * Create a transport that batches reports and flushes them with sendBeacon,
+ * falling back to keepalive fetch and a small localStorage retry queue
+ */
+export function createBeaconTransport(options: BeaconTransportOptions = {}): AnalyticsTransport {
+  const config = { ...DEFAULTS, ...options };
+
+  // Latest value of each metric, per page the metrics were measured on
+  const pending = new Map<string, WebVitalsReport>();
+  let leaving = false;
+
+  const readQueue = (): QueuedPayload[] => {
+    try {
+      const stored = localStorage.getItem(config.storageKey);
+      return stored ? (JSON.parse(stored) as QueuedPayload[]) : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const writeQueue = (queue: QueuedPayload[]) => {
+    try {
+      const fresh = queue
+        .filter(item => Date.now() - item.queuedAt < config.maxAge && item.attempts < config.maxAttempts)
+        .slice(-config.maxQueued);
+
+      if (fresh.length > 0) {
+        localStorage.setItem(config.storageKey, JSON.stringify(fresh));
+      } else {
+        localStorage.removeItem(config.storageKey);
+      }
+    } catch {
+      // Storage full or disabled - the report is lost, which is acceptable for analytics
+    }
+  };
+
+  const requeue = (item: QueuedPayload) => {
+    writeQueue([...readQueue(), { ...item, attempts: item.attempts + 1 }]);
+  };
+
+  const post = (item: QueuedPayload) => {
+    fetch(config.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: item.body,
+      keepalive: true
+    })
+      .then(response => {
+        // 4xx means the payload itself is bad - retrying will not help
+        if (response.status >= 500) requeue(item);
+      })
+      .catch(() => requeue(item));
+  };
+
+  const send = (body: string) => {
+    const item: QueuedPayload = { body, queuedAt: Date.now(), attempts: 0 };
+
+    if (typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function') {
+      try {
+        if (navigator.sendBeacon(config.endpoint, new Blob([body], { type: 'application/json' }))) {
+          return;
+        }
+      } catch {
+        // Fall through to fetch
+      }
+    }
+
+    if (typeof fetch !== 'undefined') {
+      post(item);
+    } else {
+      requeue(item);
+    }
+  };
+
+  const flush = () => {
+    for (const [url, report] of pending) {
+      const payload: VitalsPayload = {
+        ...report,
+        url,
+        userAgent: navigator.userAgent,
+        timestamp: Date.now()
+      };
+      send(JSON.stringify(payload));
+    }
+    pending.clear();
+  };
+
+  const retryQueued = () => {
+    const queue = readQueue();
+    if (queue.length === 0 || typeof fetch === 'undefined') return;
+
+    localStorage.removeItem(config.storageKey);
+    queue.forEach(post);
+  };
+
+  const onVisibilityChange = () => {
+    leaving = document.visibilityState === 'hidden';
+    if (leaving) flush();
+  };
+
+  const onPageHide = () => {
+    leaving = true;
+    flush();
+  };
+
+  document.addEventListener('visibilitychange', onVisibilityChange);
+  addEventListener('pagehide', onPageHide);
+  retryQueued();
+
+  return {
+    enqueue: (report, pageUrl) => {
+      pending.set(pageUrl, { ...pending.get(pageUrl), ...report });
+
+      // Final reports can arrive after our own unload listeners have run
+      if (leaving || document.visibilityState === 'hidden') {
+        flush();
+      }
+    },
+    flush,
+    dispose: () => {
+      flush();
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      removeEventListener('pagehide', onPageHide);
+    }
+  };
+}
+
+let defaultTransport: AnalyticsTransport | undefined;
+
+/**
+ * Shared transport used by sendToAnalytics and initPerformanceMonitoring
+ */
+export function getBeaconTransport(): AnalyticsTransport | undefined {
+  if (typeof window === 'undefined') return undefined;
+  defaultTransport ??= createBeaconTransport();
+  return defaultTransport;
+}
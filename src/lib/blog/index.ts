@@ -0,0 +1,72 @@
+/**
+ * Blog post types and helpers shared by the blog routes and components
+ * Content loading lives in $lib/server/blog so raw Markdown never reaches the client
+ */
+
+export const POSTS_PER_PAGE = 6;
+
+export interface PostFrontmatter {
+  title: string;
+  description: string;
+  // Publish date as YYYY-MM-DD; posts dated in the future stay out of production builds
+  date: string;
+  updated?: string;
+  tags: string[];
+  section?: string;
+  image?: string;
+  author?: string;
+  draft: boolean;
+}
+
+export interface Post extends PostFrontmatter {
+  slug: string;
+  readingTime: number;
+  keywords: string;
+}
+
+export interface Paginated<T> {
+  items: T[];
+  page: number;
+  totalPages: number;
+}
+
+/**
+ * URL-safe slug for a tag, e.g. "Core Web Vitals" -> "core-web-vitals"
+ */
+export function tagSlug(tag: string): string {
+  return tag
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Path of a page in the blog listing - the first page lives at /blog itself
+ */
+export function blogPagePath(page: number): string {
+  return page <= 1 ? '/blog' : `/blog/page/${page}`;
+}
+
+/**
+ * Slice one page out of a list - callers 404 on pages past totalPages
+ */
+export function paginate<T>(items: T[], page: number, perPage: number = POSTS_PER_PAGE): Paginated<T> {
+  const start = (page - 1) * perPage;
+  return {
+    items: items.slice(start, start + perPage),
+    page,
+    totalPages: Math.max(1, Math.ceil(items.length / perPage))
+  };
+}
+
+/**
+ * Human-readable publish date, fixed to UTC so SSR and hydration agree
+ */
+export function formatPostDate(day: string): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC'
+  });
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { bookingConfig, officeClosures } from './config';
+import { renderIcs } from './ics';
+import { bookingSchema } from './schema';
+import { computeSlots, formatSlot, groupSlotsByDay, isSlotAvailable } from './slots';
+import type { BookingConfig } from './types';
+import { validateBookingConfig } from './validate';
+
+const config: BookingConfig = {
+	timeZone: 'America/Los_Angeles',
+	slotMinutes: 60,
+	bufferMinutes: 30,
+	minNoticeHours: 0,
+	horizonDays: 7,
+	hours: [
+		{ day: 1, open: '09:00', close: '12:00' },
+		{ day: 2, open: '09:00', close: '12:00' }
+	],
+	blackoutDates: []
+};
+
+// Monday 1 September 2025, 08:00 in Los Angeles
+const monday = new Date('2025-09-01T15:00:00Z');
+
+describe('computeSlots', () => {
+	it('turns business hours in the business zone into UTC slots', () => {
+		const slots = computeSlots(config, [], monday);
+
+		expect(slots.slice(0, 3)).toEqual([
+			{ start: '2025-09-01T16:00:00.000Z', end: '2025-09-01T17:00:00.000Z' },
+			{ start: '2025-09-01T17:00:00.000Z', end: '2025-09-01T18:00:00.000Z' },
+			{ start: '2025-09-01T18:00:00.000Z', end: '2025-09-01T19:00:00.000Z' }
+		]);
+		expect(slots).toHaveLength(6);
+	});
+
+	it('keeps local hours across a daylight saving change', () => {
+		// Monday 3 November 2025 is the first working day after clocks go back
+		const slots = computeSlots({ ...config, horizonDays: 2 }, [], new Date('2025-11-02T12:00:00Z'));
+
+		expect(slots[0].start).toBe('2025-11-03T17:00:00.000Z');
+	});
+
+	it('skips blackout dates and respects minimum notice', () => {
+		const slots = computeSlots({ ...config, blackoutDates: ['2025-09-02'], minNoticeHours: 2 }, [], monday);
+
+		expect(slots.map((slot) => slot.start)).toEqual(['2025-09-01T17:00:00.000Z', '2025-09-01T18:00:00.000Z']);
+	});
+
+	it('blocks booked calls plus the buffer either side', () => {
+		const booked = [{ start: '2025-09-01T17:00:00.000Z', end: '2025-09-01T18:00:00.000Z' }];
+		const starts = computeSlots(config, booked, monday).map((slot) => slot.start);
+
+		expect(starts).not.toContain('2025-09-01T16:00:00.000Z');
+		expect(starts).not.toContain('2025-09-01T18:00:00.000Z');
+		expect(isSlotAvailable(config, booked, '2025-09-02T16:00:00.000Z', monday)).toBe(true);
+		expect(isSlotAvailable(config, booked, '2025-09-01T16:30:00.000Z', monday)).toBe(false);
+	});
+});
+
+describe('slot display', () => {
+	it('groups by the day in the visitor zone', () => {
+		const slots = computeSlots(config, [], monday);
+		const tokyo = groupSlotsByDay(slots, 'Asia/Tokyo');
+
+		// 09:00-12:00 in Los Angeles is 01:00-04:00 the next day in Tokyo
+		expect(tokyo.map((day) => day.date)).toEqual(['2025-09-02', '2025-09-03']);
+		expect(formatSlot(slots[0].start, 'Asia/Tokyo')).toMatch(/^Tuesday, September 2 at 1:00\sAM GMT\+9$/);
+	});
+});
+
+describe('validateBookingConfig', () => {
+	it('accepts the shipped config and reports bad hours', () => {
+		expect(validateBookingConfig(bookingConfig)).toEqual([]);
+		expect(
+			validateBookingConfig({
+				...config,
+				timeZone: 'Mars/Olympus',
+				hours: [{ day: 1, open: '17:00', close: '09:00' }],
+				blackoutDates: ['next tuesday']
+			})
+		).toEqual([
+			'timeZone Mars/Olympus is not an IANA time zone',
+			'hours[0] must open before it closes',
+			'blackoutDates[0] must be YYYY-MM-DD'
+		]);
+	});
+});
+
+describe('blackout dates', () => {
+	it('finds the closures for any year', () => {
+		expect(officeClosures(2026)).toEqual(['2026-01-01', '2026-11-26', '2026-11-27', '2026-12-24', '2026-12-25', '2026-12-31']);
+		expect(officeClosures(2027)).toContain('2027-11-25');
+	});
+
+	it('cover every day of the booking horizon', () => {
+		const today = new Date();
+		const lastDay = new Date(today.getTime() + bookingConfig.horizonDays * 24 * 60 * 60 * 1000);
+		const horizonYears = new Set([today.getUTCFullYear(), lastDay.getUTCFullYear()]);
+
+		for (const year of horizonYears) {
+			expect(bookingConfig.blackoutDates).toEqual(expect.arrayContaining(officeClosures(year)));
+		}
+		expect(bookingConfig.blackoutDates.toSorted().at(-1)! >= lastDay.toISOString().slice(0, 10)).toBe(true);
+	});
+});
+
+describe('bookingSchema', () => {
+	const form = { start: '2025-09-01T16:00:00.000Z', name: 'Ada Lovelace', email: 'ada@example.com' };
+
+	it('accepts IANA zones and an empty zone', () => {
+		expect(bookingSchema.safeParse({ ...form, timeZone: 'Europe/London' }).success).toBe(true);
+		expect(bookingSchema.parse(form).timeZone).toBe('');
+	});
+
+	it('refuses zones Intl cannot format in', () => {
+		const result = bookingSchema.safeParse({ ...form, timeZone: 'Mars/Olympus' });
+
+		expect(result.success).toBe(false);
+		expect(result.error?.issues[0]).toMatchObject({ path: ['timeZone'], message: 'Unknown time zone' });
+	});
+});
+
+describe('renderIcs', () => {
+	const ics = renderIcs(
+		{
+			uid: 'abc@taitmedia.com',
+			start: '2025-09-01T16:00:00.000Z',
+			end: '2025-09-01T16:30:00.000Z',
+			stamp: '2025-08-28T10:15:00.000Z',
+			summary: 'Discovery call with Tait Media Solutions',
+			description: `Notes: budget, timeline; ${'a long line '.repeat(10)}\nSecond line`,
+			organizer: { name: 'Tait Media Solutions', email: 'hello@taitmedia.com' },
+			attendee: { name: 'Ada "AL" Lovelace', email: 'ada@example.com' }
+		},
+		'Tait Media Solutions'
+	);
+	const lines = ics.split('\r\n');
+
+	it('writes UTC times, escaped text and CRLF line endings', () => {
+		expect(lines).toContain('DTSTART:20250901T160000Z');
+		expect(lines).toContain('DTEND:20250901T163000Z');
+		expect(lines).toContain('DTSTAMP:20250828T101500Z');
+		expect(ics).toContain('DESCRIPTION:Notes: budget\\, timeline\\; a long line');
+		expect(ics.replace(/\r\n /g, '')).toContain('\\nSecond line');
+		expect(ics).toContain('ATTENDEE;CN="Ada AL Lovelace"');
+		expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+	});
+
+	it('publishes an event to import rather than sending a meeting request', () => {
+		expect(lines).toContain('METHOD:PUBLISH');
+		expect(ics).not.toContain('METHOD:REQUEST');
+		expect(ics).not.toContain('RSVP=TRUE');
+	});
+
+	it('folds lines to 75 octets', () => {
+		expect(lines.every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+		expect(lines.some((line) => line.startsWith(' '))).toBe(true);
+	});
+});
@@ -0,0 +1,48 @@
+/**
+ * When discovery calls can be booked
+ */
+
+import type { BookingConfig } from './types';
+import { defineBookingConfig } from './validate';
+
+function isoDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+/**
+ * Days the office is closed every year: Thanksgiving and the Friday after, Christmas Eve and Day,
+ * New Year's Eve and New Year's Day
+ */
+export function officeClosures(year: number): string[] {
+  // Thanksgiving is the fourth Thursday of November
+  const firstThursday = 1 + ((4 - new Date(Date.UTC(year, 10, 1)).getUTCDay() + 7) % 7);
+  const thanksgiving = firstThursday + 21;
+
+  return [
+    isoDate(year, 1, 1),
+    isoDate(year, 11, thanksgiving),
+    isoDate(year, 11, thanksgiving + 1),
+    isoDate(year, 12, 24),
+    isoDate(year, 12, 25),
+    isoDate(year, 12, 31)
+  ];
+}
+
+// This year and next, so the booking horizon is covered however late in the year the server starts
+const thisYear = new Date().getUTCFullYear();
+
+export const bookingConfig: BookingConfig = defineBookingConfig({
+  timeZone: 'America/Los_Angeles',
+  slotMinutes: 30,
+  bufferMinutes: 15,
+  minNoticeHours: 24,
+  horizonDays: 21,
+  hours: [
+    { day: 1, open: '09:00', close: '17:00' },
+    { day: 2, open: '09:00', close: '17:00' },
+    { day: 3, open: '09:00', close: '17:00' },
+    { day: 4, open: '09:00', close: '17:00' },
+    { day: 5, open: '09:00', close: '15:00' }
+  ],
+  blackoutDates: [...officeClosures(thisYear), ...officeClosures(thisYear + 1)]
+});
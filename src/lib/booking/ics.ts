@@ -0,0 +1,84 @@
+/**
+ * iCalendar (RFC 5545) invites for booked discovery calls
+ */
+
+import type { TimeRange } from './types';
+
+export interface CalendarInvite extends TimeRange {
+  uid: string;
+  summary: string;
+  description: string;
+  url?: string;
+  organizer: { name: string; email: string };
+  attendee: { name: string; email: string };
+  // When the invite was created
+  stamp: string;
+}
+
+// 20250902T170000Z
+function formatInstant(instant: string): string {
+  return new Date(instant).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function quoteParam(value: string): string {
+  return `"${value.replace(/["\r\n]/g, '')}"`;
+}
+
+/**
+ * Fold content lines longer than 75 octets onto continuation lines starting with a space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * A calendar file for the visitor to import - PUBLISH rather than an iTIP REQUEST, so calendar
+ * apps add the event instead of treating it as a meeting invite awaiting a reply
+ */
+export function renderIcs(invite: CalendarInvite, productId: string): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${productId}//Booking//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${invite.uid}`,
+    `DTSTAMP:${formatInstant(invite.stamp)}`,
+    `DTSTART:${formatInstant(invite.start)}`,
+    `DTEND:${formatInstant(invite.end)}`,
+    `SUMMARY:${escapeText(invite.summary)}`,
+    `DESCRIPTION:${escapeText(invite.description)}`,
+    ...(invite.url ? [`URL:${invite.url}`] : []),
+    `ORGANIZER;CN=${quoteParam(invite.organizer.name)}:mailto:${invite.organizer.email}`,
+    `ATTENDEE;CN=${quoteParam(invite.attendee.name)};ROLE=REQ-PARTICIPANT:mailto:${invite.attendee.email}`,
+    'STATUS:CONFIRMED',
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeText(invite.summary)}`,
+    'TRIGGER:-PT15M',
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,6 @@
+export * from './config';
+export * from './ics';
+export * from './schema';
+export * from './slots';
+export * from './types';
+export * from './validate';
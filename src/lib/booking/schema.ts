@@ -0,0 +1,23 @@
+/**
+ * Booking form schema, shared by the server action and client-side validation
+ */
+
+import { z } from 'zod';
+import { isTimeZone } from './validate';
+
+export const bookingSchema = z.object({
+  start: z.string({ required_error: 'Please pick a time' }).datetime({ message: 'Please pick a time' }),
+  name: z.string().trim().min(2, 'Please tell us your name').max(100),
+  email: z.string().trim().email('Please enter a valid email address').max(254),
+  company: z.string().trim().max(100).default(''),
+  notes: z.string().trim().max(1000, 'Please keep notes under 1000 characters').default(''),
+  // The visitor's zone, so the confirmation shows the time they picked; it is formatted with
+  // Intl later, so anything Intl does not know is refused here
+  timeZone: z
+    .string()
+    .max(64)
+    .refine((value) => value === '' || isTimeZone(value), 'Unknown time zone')
+    .default('')
+});
+
+export type BookingForm = z.infer<typeof bookingSchema>;
@@ -0,0 +1,110 @@
+/**
+ * Bookable slots from business hours, buffers, blackout dates and existing bookings
+ * All arithmetic happens in the business time zone so DST changes never shift the hours;
+ * slots leave here as UTC instants and are formatted in the visitor's zone for display.
+ */
+
+import {
+  DateFormatter,
+  fromDate,
+  getDayOfWeek,
+  parseAbsolute,
+  parseTime,
+  toCalendarDate,
+  toCalendarDateTime,
+  toZoned
+} from '@internationalized/date';
+import type { BookingConfig, TimeRange } from './types';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Every slot still open between minNoticeHours from now and the end of the booking horizon
+ */
+export function computeSlots(config: BookingConfig, booked: TimeRange[], now: Date = new Date()): TimeRange[] {
+  const earliest = now.getTime() + config.minNoticeHours * 60 * MINUTE_MS;
+  const buffer = config.bufferMinutes * MINUTE_MS;
+  const blocked = booked.map((range) => ({
+    start: Date.parse(range.start) - buffer,
+    end: Date.parse(range.end) + buffer
+  }));
+
+  const firstDay = toCalendarDate(fromDate(now, config.timeZone));
+  const slots: TimeRange[] = [];
+
+  for (let offset = 0; offset < config.horizonDays; offset++) {
+    const date = firstDay.add({ days: offset });
+    if (config.blackoutDates.includes(date.toString())) continue;
+
+    const weekday = getDayOfWeek(date, 'en-US', 'mon') + 1;
+    const hours = config.hours.find(({ day }) => day === weekday);
+    if (!hours) continue;
+
+    const close = toZoned(toCalendarDateTime(date, parseTime(hours.close)), config.timeZone);
+    let start = toZoned(toCalendarDateTime(date, parseTime(hours.open)), config.timeZone);
+
+    while (start.add({ minutes: config.slotMinutes }).compare(close) <= 0) {
+      const end = start.add({ minutes: config.slotMinutes });
+      const startMs = start.toDate().getTime();
+      const endMs = end.toDate().getTime();
+
+      if (startMs >= earliest && !blocked.some((range) => startMs < range.end && endMs > range.start)) {
+        slots.push({ start: new Date(startMs).toISOString(), end: new Date(endMs).toISOString() });
+      }
+      start = end;
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Whether a call can start at this instant, given what is already booked
+ */
+export function isSlotAvailable(config: BookingConfig, booked: TimeRange[], start: string, now: Date = new Date()): boolean {
+  const time = Date.parse(start);
+  return computeSlots(config, booked, now).some((slot) => Date.parse(slot.start) === time);
+}
+
+export interface SlotDay {
+  // YYYY-MM-DD in the display time zone
+  date: string;
+  slots: TimeRange[];
+}
+
+/**
+ * Group slots by the calendar day they fall on in timeZone
+ */
+export function groupSlotsByDay(slots: TimeRange[], timeZone: string): SlotDay[] {
+  const days = new Map<string, TimeRange[]>();
+  for (const slot of slots) {
+    const date = toCalendarDate(parseAbsolute(slot.start, timeZone)).toString();
+    days.set(date, [...(days.get(date) ?? []), slot]);
+  }
+  return [...days].map(([date, daySlots]) => ({ date, slots: daySlots }));
+}
+
+export function formatSlotDay(date: string, locale: string = 'en-US'): string {
+  return new DateFormatter(locale, { weekday: 'long', month: 'long', day: 'numeric', timeZone: 'UTC' }).format(
+    new Date(`${date}T12:00:00Z`)
+  );
+}
+
+export function formatSlotTime(instant: string, timeZone: string, locale: string = 'en-US'): string {
+  return new DateFormatter(locale, { hour: 'numeric', minute: '2-digit', timeZone }).format(new Date(instant));
+}
+
+/**
+ * e.g. "Tuesday, September 2 at 10:00 AM PDT"
+ */
+export function formatSlot(instant: string, timeZone: string, locale: string = 'en-US'): string {
+  return new DateFormatter(locale, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+    timeZoneName: 'short'
+  }).format(new Date(instant));
+}
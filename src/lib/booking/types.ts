@@ -0,0 +1,36 @@
+/**
+ * Discovery-call booking model
+ */
+
+// ISO weekday: 1 = Monday ... 7 = Sunday
+export type Weekday = 1 | 2 | 3 | 4 | 5 | 6 | 7;
+
+export interface BusinessHours {
+  day: Weekday;
+  // 24-hour HH:MM in the business time zone
+  open: string;
+  close: string;
+}
+
+export interface BookingConfig {
+  // IANA zone the business hours are in
+  timeZone: string;
+  slotMinutes: number;
+  // Kept free either side of every booked call
+  bufferMinutes: number;
+  // Earliest a call can be booked from now
+  minNoticeHours: number;
+  // How far ahead slots are offered
+  horizonDays: number;
+  hours: BusinessHours[];
+  // YYYY-MM-DD dates in the business time zone with no calls at all
+  blackoutDates: string[];
+}
+
+/**
+ * A booked or bookable period, as ISO 8601 UTC instants
+ */
+export interface TimeRange {
+  start: string;
+  end: string;
+}
@@ -0,0 +1,74 @@
+/**
+ * Validation for the booking config
+ * Runs when config.ts is imported, so impossible hours stop the build instead of offering no slots
+ */
+
+import type { BookingConfig } from './types';
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export class BookingConfigError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid booking config:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'BookingConfigError';
+  }
+}
+
+/**
+ * Whether Intl knows value as an IANA time zone
+ */
+export function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Collect every problem with a booking config, empty when it is valid
+ */
+export function validateBookingConfig(config: BookingConfig): string[] {
+  const issues: string[] = [];
+  const check = (ok: boolean, message: string) => {
+    if (!ok) issues.push(message);
+  };
+
+  check(isTimeZone(config.timeZone), `timeZone ${config.timeZone} is not an IANA time zone`);
+  check(Number.isInteger(config.slotMinutes) && config.slotMinutes >= 15, 'slotMinutes must be a whole number of at least 15');
+  check(Number.isInteger(config.bufferMinutes) && config.bufferMinutes >= 0, 'bufferMinutes must be a whole number of 0 or more');
+  check(config.minNoticeHours >= 0, 'minNoticeHours cannot be negative');
+  check(Number.isInteger(config.horizonDays) && config.horizonDays >= 1, 'horizonDays must be at least 1');
+
+  const days = new Set<number>();
+  config.hours.forEach((hours, index) => {
+    check(Number.isInteger(hours.day) && hours.day >= 1 && hours.day <= 7, `hours[${index}].day must be 1 (Monday) to 7 (Sunday)`);
+    check(!days.has(hours.day), `hours[${index}] repeats day ${hours.day}`);
+    days.add(hours.day);
+    if (!TIME.test(hours.open) || !TIME.test(hours.close)) {
+      issues.push(`hours[${index}] open and close must be HH:MM`);
+    } else {
+      check(hours.open < hours.close, `hours[${index}] must open before it closes`);
+    }
+  });
+  check(config.hours.length > 0, 'hours needs at least one day');
+
+  config.blackoutDates.forEach((date, index) => {
+    check(DATE.test(date) && !Number.isNaN(Date.parse(date)), `blackoutDates[${index}] must be YYYY-MM-DD`);
+  });
+
+  return issues;
+}
+
+/**
+ * Validate a booking config and return it unchanged, throwing BookingConfigError when it is invalid
+ */
+export function defineBookingConfig(config: BookingConfig): BookingConfig {
+  const issues = validateBookingConfig(config);
+  if (issues.length > 0) {
+    throw new BookingConfigError(issues);
+  }
+  return config;
+}
@@ -0,0 +1,137 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gzipSync } from 'node:zlib';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DEFAULT_BUDGET } from '$lib/performance-budget';
+import {
+	PerformanceBudgetError,
+	budgetFor,
+	checkPrerenderedBudgets,
+	formatBudgetReport,
+	measureRoute,
+	pageResources,
+	prerenderedPathname
+} from './budget';
+
+const appJs = 'export const start = () => console.log("hello");'.repeat(20);
+const appCss = 'body { margin: 0; color: #0f172a; }'.repeat(20);
+
+const page = (images: string[] = []) => `<!doctype html>
+<html>
+	<head>
+		<link href="../_app/immutable/assets/app.css" rel="stylesheet">
+		<link rel="modulepreload" href="../_app/immutable/entry/app.js">
+		<script type="application/ld+json">{"@type":"WebPage"}</script>
+	</head>
+	<body>
+		${images.map((src) => `<img src="${src}" alt="">`).join('\n')}
+		<img src="data:image/webp;base64,AAAA" alt="">
+		<script>
+			Promise.all([import("../_app/immutable/entry/start.js"), import("../_app/immutable/entry/app.js")]);
+		</script>
+	</body>
+</html>`;
+
+let outDir: string;
+
+beforeAll(async () => {
+	outDir = await mkdtemp(join(tmpdir(), 'budget-'));
+	const client = join(outDir, 'client/_app/immutable');
+	await mkdir(join(client, 'entry'), { recursive: true });
+	await mkdir(join(client, 'assets'), { recursive: true });
+	await mkdir(join(outDir, 'prerendered/pages/work'), { recursive: true });
+
+	await writeFile(join(client, 'entry/app.js'), appJs);
+	await writeFile(join(client, 'entry/start.js'), appJs);
+	await writeFile(join(client, 'assets/app.css'), appCss);
+	await writeFile(join(client, 'assets/hero.webp'), Buffer.alloc(600_000));
+
+	await writeFile(join(outDir, 'prerendered/pages/work.html'), page());
+	await writeFile(join(outDir, 'prerendered/pages/work/apex.html'), page(['/_app/immutable/assets/hero.webp', '/_app/immutable/assets/hero.webp']));
+});
+
+afterAll(async () => {
+	await rm(outDir, { recursive: true, force: true });
+});
+
+describe('prerenderedPathname', () => {
+	it('maps prerendered files to the pathname they are served at', () => {
+		expect(prerenderedPathname('index.html')).toBe('/');
+		expect(prerenderedPathname('work.html')).toBe('/work');
+		expect(prerenderedPathname(join('blog', 'page', '2.html'))).toBe('/blog/page/2');
+		expect(prerenderedPathname(join('services', 'index.html'))).toBe('/services');
+	});
+});
+
+describe('budgetFor', () => {
+	const routes = {
+		'/work/*': { imageCount: 30, imageBytes: 2_000_000 },
+		'/work/apex': { imageCount: 40 }
+	};
+
+	it('uses the default budget when nothing matches', () => {
+		expect(budgetFor('/blog', routes)).toEqual(DEFAULT_BUDGET);
+	});
+
+	it('applies wildcard overrides to the section and everything below it', () => {
+		expect(budgetFor('/work', routes).imageCount).toBe(30);
+		expect(budgetFor('/work/harbor', routes).imageBytes).toBe(2_000_000);
+		expect(budgetFor('/workshop', routes)).toEqual(DEFAULT_BUDGET);
+	});
+
+	it('lets the most specific override win', () => {
+		expect(budgetFor('/work/apex', routes)).toMatchObject({ imageCount: 40, imageBytes: 2_000_000 });
+	});
+});
+
+describe('pageResources', () => {
+	it('resolves relative URLs against the page and skips inline images', () => {
+		const resources = pageResources(page(['hero.webp', 'https://cdn.example.com/x.webp']), '/work/apex');
+
+		expect(resources).toEqual({
+			scripts: ['/_app/immutable/entry/app.js', '/_app/immutable/entry/start.js'],
+			styles: ['/_app/immutable/assets/app.css'],
+			images: ['/work/hero.webp']
+		});
+	});
+});
+
+describe('measureRoute', () => {
+	it('weighs gzipped JS and CSS, script elements and image bytes', async () => {
+		const weight = await measureRoute(page(['/_app/immutable/assets/hero.webp']), '/work', join(outDir, 'client'));
+
+		expect(weight).toEqual({
+			pathname: '/work',
+			bundleSize: 2 * gzipSync(appJs).length + gzipSync(appCss).length,
+			scriptCount: 2,
+			imageCount: 1,
+			imageBytes: 600_000
+		});
+	});
+});
+
+describe('checkPrerenderedBudgets', () => {
+	it('reports every prerendered page against its budget', async () => {
+		const results = await checkPrerenderedBudgets(outDir);
+
+		expect(results.map((result) => [result.weight.pathname, result.violations])).toEqual([
+			['/work', []],
+			['/work/apex', ['Images exceeded budget: 1200.0 kB > 1000.0 kB']]
+		]);
+		expect(formatBudgetReport(results).split('\n')).toHaveLength(3);
+		expect(new PerformanceBudgetError(results).message).toBe(
+			'Performance budget exceeded on 1 page(s):\n  - /work/apex: Images exceeded budget: 1200.0 kB > 1000.0 kB'
+		);
+	});
+
+	it('passes pages with an override', async () => {
+		const results = await checkPrerenderedBudgets(outDir, { '/work/apex': { imageBytes: 1_500_000 } });
+
+		expect(results.every((result) => result.violations.length === 0)).toBe(true);
+	});
+
+	it('finds nothing to check before anything is prerendered', async () => {
+		expect(await checkPrerenderedBudgets(join(outDir, 'missing'))).toEqual([]);
+	});
+});
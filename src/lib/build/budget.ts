@@ -0,0 +1,254 @@
+/**
+ * Performance budget for the prerendered pages
+ * Runs once SvelteKit has prerendered, weighing what each page ships: gzipped JS and CSS,
+ * its script elements and the images it references. Any page over its budget fails the build
+ * with the list of violations.
+ */
+
+import { readFile, readdir } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+import { gzipSync } from 'node:zlib';
+import type { Plugin } from 'vite';
+import { DEFAULT_BUDGET, type PerformanceBudget } from '../performance-budget';
+
+// Budget overrides keyed by pathname; a trailing /* also matches every page below it
+export type RouteBudgets = Record<string, Partial<PerformanceBudget>>;
+
+export interface RouteWeight {
+  pathname: string;
+  bundleSize: number;
+  scriptCount: number;
+  imageCount: number;
+  imageBytes: number;
+}
+
+export interface RouteBudgetResult {
+  weight: RouteWeight;
+  budget: PerformanceBudget;
+  violations: string[];
+}
+
+export class PerformanceBudgetError extends Error {
+  constructor(public results: RouteBudgetResult[]) {
+    const failing = results.filter((result) => result.violations.length > 0);
+    super(
+      `Performance budget exceeded on ${failing.length} page(s):\n${failing
+        .flatMap((result) => result.violations.map((violation) => `  - ${result.weight.pathname}: ${violation}`))
+        .join('\n')}`
+    );
+    this.name = 'PerformanceBudgetError';
+  }
+}
+
+/**
+ * The pathname a prerendered HTML file is served at, e.g. blog/page/2.html is /blog/page/2
+ */
+export function prerenderedPathname(file: string): string {
+  const path = file.split(sep).join('/').replace(/\.html$/, '');
+  if (path === 'index') return '/';
+  return `/${path.replace(/\/index$/, '')}`;
+}
+
+/**
+ * Whether a pathname equals a pattern, or sits at or below one ending in /*
+ */
+export function matchesRoute(pathname: string, pattern: string): boolean {
+  return pattern.endsWith('/*')
+    ? pathname === pattern.slice(0, -2) || pathname.startsWith(pattern.slice(0, -1))
+    : pathname === pattern;
+}
+
+/**
+ * The default budget with every matching override applied, least specific first
+ */
+export function budgetFor(pathname: string, routes: RouteBudgets = {}): PerformanceBudget {
+  const matches = Object.keys(routes)
+    .filter((pattern) => matchesRoute(pathname, pattern))
+    .sort((a, b) => a.length - b.length);
+
+  return Object.assign({ ...DEFAULT_BUDGET }, ...matches.map((pattern) => routes[pattern]));
+}
+
+const attribute = (tag: string, name: string) => tag.match(new RegExp(`\\s${name}\\s*=\\s*"([^"]*)"`, 'i'))?.[1];
+
+/**
+ * The JS, CSS and image URLs a page loads, resolved against its pathname
+ */
+export function pageResources(html: string, pathname: string): { scripts: string[]; styles: string[]; images: string[] } {
+  const base = new URL(pathname, 'http://localhost');
+  const local = (url: string | undefined) => {
+    if (!url || url.startsWith('data:')) return [];
+    const resolved = new URL(url, base);
+    return resolved.host === base.host ? [resolved.pathname] : [];
+  };
+
+  const scripts = new Set<string>();
+  const styles = new Set<string>();
+  const images: string[] = [];
+
+  for (const [tag] of html.matchAll(/<link\b[^>]*>/gi)) {
+    const rel = attribute(tag, 'rel');
+    if (rel === 'modulepreload') local(attribute(tag, 'href')).forEach((url) => scripts.add(url));
+    if (rel === 'stylesheet') local(attribute(tag, 'href')).forEach((url) => styles.add(url));
+  }
+
+  for (const [, attributes, body] of html.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script>/gi)) {
+    local(attribute(attributes, 'src')).forEach((url) => scripts.add(url));
+    // SvelteKit starts the app from an inline script that imports its entry chunks
+    for (const [, url] of body.matchAll(/import\(\s*"([^"]+)"\s*\)/g)) {
+      local(url).forEach((resolved) => scripts.add(resolved));
+    }
+  }
+
+  // The fallback src is the widest variant <Picture> offers, the most a browser will fetch
+  for (const [tag] of html.matchAll(/<img\b[^>]*>/gi)) {
+    images.push(...local(attribute(tag, 'src')));
+  }
+
+  return { scripts: [...scripts], styles: [...styles], images };
+}
+
+/**
+ * Weigh one prerendered page against the files in the client build
+ */
+export async function measureRoute(
+  html: string,
+  pathname: string,
+  clientDir: string,
+  cache: Map<string, Promise<{ size: number; gzip: number }>> = new Map()
+): Promise<RouteWeight> {
+  const sizeOf = (url: string) => {
+    let entry = cache.get(url);
+    if (!entry) {
+      entry = readFile(join(clientDir, decodeURIComponent(url))).then(
+        (data) => ({ size: data.length, gzip: gzipSync(data).length }),
+        // Served by an endpoint or another origin, so there is nothing to weigh here
+        () => ({ size: 0, gzip: 0 })
+      );
+      cache.set(url, entry);
+    }
+    return entry;
+  };
+  const sum = async (urls: string[], key: 'size' | 'gzip') =>
+    (await Promise.all(urls.map(sizeOf))).reduce((total, entry) => total + entry[key], 0);
+
+  const { scripts, styles, images } = pageResources(html, pathname);
+  // Counted the same way as checkPerformanceBudget does in the browser
+  const scriptCount = html.match(/<script\b/gi)?.length ?? 0;
+  const inlineStyles = [...html.matchAll(/<style\b[^>]*>([\s\S]*?)<\/style>/gi)].map(([, css]) => css).join('');
+
+  return {
+    pathname,
+    bundleSize: (await sum([...scripts, ...styles], 'gzip')) + (inlineStyles ? gzipSync(inlineStyles).length : 0),
+    scriptCount,
+    imageCount: images.length,
+    imageBytes: await sum(images, 'size')
+  };
+}
+
+export function checkRouteBudget(weight: RouteWeight, budget: PerformanceBudget): string[] {
+  const violations: string[] = [];
+
+  if (weight.bundleSize > budget.bundleSize) {
+    violations.push(`JS and CSS exceeded budget: ${formatBytes(weight.bundleSize)} > ${formatBytes(budget.bundleSize)} gzipped`);
+  }
+  if (weight.scriptCount > budget.scriptCount) {
+    violations.push(`Too many scripts: ${weight.scriptCount} > ${budget.scriptCount}`);
+  }
+  if (weight.imageCount > budget.imageCount) {
+    violations.push(`Too many images: ${weight.imageCount} > ${budget.imageCount}`);
+  }
+  if (weight.imageBytes > budget.imageBytes) {
+    violations.push(`Images exceeded budget: ${formatBytes(weight.imageBytes)} > ${formatBytes(budget.imageBytes)}`);
+  }
+
+  return violations;
+}
+
+export function formatBytes(bytes: number): string {
+  return bytes < 1000 ? `${bytes} B` : `${(bytes / 1000).toFixed(1)} kB`;
+}
+
+/**
+ * One line per page, each figure shown against its budget
+ */
+export function formatBudgetReport(results: RouteBudgetResult[]): string {
+  const rows = results.map(({ weight, budget, violations }) => [
+    weight.pathname,
+    `${formatBytes(weight.bundleSize)} / ${formatBytes(budget.bundleSize)}`,
+    `${weight.scriptCount} / ${budget.scriptCount}`,
+    `${weight.imageCount} / ${budget.imageCount}`,
+    `${formatBytes(weight.imageBytes)} / ${formatBytes(budget.imageBytes)}`,
+    violations.length > 0 ? 'over' : 'ok'
+  ]);
+  const table = [['page', 'js+css (gzip)', 'scripts', 'images', 'image bytes', ''], ...rows];
+  const widths = table[0].map((_, column) => Math.max(...table.map((row) => row[column].length)));
+
+  return table.map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()).join('\n');
+}
+
+async function listHtml(dir: string): Promise<string[]> {
+  try {
+    const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile() && entry.name.endsWith('.html'))
+      .map((entry) => relative(dir, join(entry.parentPath, entry.name)))
+      .sort();
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw e;
+  }
+}
+
+/**
+ * Check every prerendered page in a SvelteKit output directory
+ */
+export async function checkPrerenderedBudgets(outDir: string, routes: RouteBudgets = {}): Promise<RouteBudgetResult[]> {
+  const pagesDir = join(outDir, 'prerendered/pages');
+  const clientDir = join(outDir, 'client');
+  const cache = new Map<string, Promise<{ size: number; gzip: number }>>();
+
+  const results: RouteBudgetResult[] = [];
+  for (const file of await listHtml(pagesDir)) {
+    const pathname = prerenderedPathname(file);
+    const weight = await measureRoute(await readFile(join(pagesDir, file), 'utf-8'), pathname, clientDir, cache);
+    const budget = budgetFor(pathname, routes);
+    results.push({ weight, budget, violations: checkRouteBudget(weight, budget) });
+  }
+  return results;
+}
+
+/**
+ * Fail the build when a prerendered page is over budget
+ * `routes` overrides DEFAULT_BUDGET per page, e.g. { '/work/*': { imageCount: 30 } }
+ */
+export function performanceBudget(options: { routes?: RouteBudgets; outDir?: string } = {}): Plugin {
+  const outDir = options.outDir ?? '.svelte-kit/output';
+  let ssr = false;
+
+  return {
+    name: 'tms:performance-budget',
+    apply: 'build',
+
+    configResolved(config) {
+      ssr = Boolean(config.build.ssr);
+    },
+
+    // SvelteKit prerenders in its own writeBundle on the server build, so this has to run after it
+    writeBundle: {
+      order: 'post',
+      sequential: true,
+      async handler() {
+        if (!ssr) return;
+
+        const results = await checkPrerenderedBudgets(outDir, options.routes);
+        if (results.length === 0) return;
+
+        console.log(`\nPerformance budget\n${formatBudgetReport(results)}\n`);
+        if (results.some((result) => result.violations.length > 0)) {
+          throw new PerformanceBudgetError(results);
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,87 @@
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import sharp from 'sharp';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { getImage, srcset } from '$lib/images';
+import { encodeVariant, imageAsset, scanSourceImages, variantWidths } from './images';
+
+let dir: string;
+
+beforeAll(async () => {
+	dir = await mkdtemp(join(tmpdir(), 'images-'));
+	await mkdir(join(dir, 'static/photos'), { recursive: true });
+
+	const png = (width: number, height: number) =>
+		sharp({ create: { width, height, channels: 4, background: '#1e40af' } }).png().toBuffer();
+	await writeFile(join(dir, 'static/logo.png'), await png(400, 400));
+	await writeFile(join(dir, 'static/photos/team.png'), await png(1000, 500));
+	await writeFile(join(dir, 'static/robots.txt'), 'User-agent: *');
+});
+
+afterAll(async () => {
+	await rm(dir, { recursive: true, force: true });
+});
+
+describe('variantWidths', () => {
+	it('stops at the intrinsic width and includes it', () => {
+		expect(variantWidths(400)).toEqual([80, 160, 320, 400]);
+	});
+
+	it('caps large sources at the widest variant', () => {
+		expect(variantWidths(8192)).toEqual([80, 160, 320, 640, 960, 1280, 1920]);
+	});
+
+	it('keeps tiny sources at their own width', () => {
+		expect(variantWidths(48)).toEqual([48]);
+	});
+});
+
+describe('scanSourceImages', () => {
+	it('reads every JPEG and PNG with its size and a placeholder', async () => {
+		const sources = await scanSourceImages(join(dir, 'static'));
+
+		expect(sources.map(({ src, width, height }) => ({ src, width, height }))).toEqual([
+			{ src: '/logo.png', width: 400, height: 400 },
+			{ src: '/photos/team.png', width: 1000, height: 500 }
+		]);
+		expect(sources[0].placeholder).toMatch(/^data:image\/webp;base64,/);
+	});
+
+	it('describes AVIF and WebP variants with content-hashed names', async () => {
+		const [logo] = await scanSourceImages(join(dir, 'static'));
+		const asset = imageAsset(logo);
+
+		expect(asset.sources.avif.map((variant) => variant.width)).toEqual([80, 160, 320, 400]);
+		expect(asset.sources.webp[0].src).toBe(`/_app/immutable/assets/logo-80.${logo.hash.slice(0, 8)}.webp`);
+	});
+});
+
+describe('encodeVariant', () => {
+	it('encodes at the requested width and caches the result', async () => {
+		const [, team] = await scanSourceImages(join(dir, 'static'));
+		const cacheDir = join(dir, 'cache');
+
+		const avif = await encodeVariant(team, 320, 'avif', cacheDir);
+		const { format, width, height } = await sharp(avif).metadata();
+		expect(format).toBe('heif');
+		expect([width, height]).toEqual([320, 160]);
+
+		const again = await encodeVariant(team, 320, 'avif', cacheDir);
+		expect(again.equals(avif)).toBe(true);
+		expect(await readdir(cacheDir)).toHaveLength(1);
+	});
+});
+
+describe('virtual:images', () => {
+	it('covers the images in static/', () => {
+		const racing = getImage('/racing.jpg');
+
+		expect([racing.width, racing.height]).toEqual([8192, 5464]);
+		expect(srcset(racing.sources.webp)).toMatch(/^\/_app\/immutable\/assets\/racing-80\.\w{8}\.webp 80w, /);
+	});
+
+	it('rejects paths the build did not process', () => {
+		expect(() => getImage('/missing.jpg')).toThrow(/No responsive variants for \/missing\.jpg/);
+	});
+});
@@ -0,0 +1,196 @@
+/**
+ * Responsive variants for the raster images in static/
+ * Every JPEG and PNG is read once for its intrinsic size and a blurred placeholder, which become the
+ * virtual:images manifest. The AVIF and WebP variants are encoded with sharp during the client build,
+ * or on request in dev, and cached on disk by a hash of the source file.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises';
+import { join, parse, relative, sep } from 'node:path';
+import sharp from 'sharp';
+import type { Plugin } from 'vite';
+import { IMAGE_FORMATS, IMAGE_WIDTHS, type ImageAsset, type ImageFormat } from '../images/types';
+
+// Bump when encoder settings change so cached variants are re-encoded
+export const IMAGE_ENCODER_VERSION = 1;
+
+const VIRTUAL_ID = 'virtual:images';
+const RESOLVED_ID = `\0${VIRTUAL_ID}`;
+const ASSETS_DIR = '_app/immutable/assets';
+const SOURCE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png']);
+
+const CONTENT_TYPES: Record<ImageFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp'
+};
+
+export interface SourceImage {
+  // Path under the static directory, with a leading slash
+  src: string;
+  file: string;
+  hash: string;
+  width: number;
+  height: number;
+  placeholder: string;
+}
+
+interface Variant {
+  source: SourceImage;
+  width: number;
+  format: ImageFormat;
+  // Output path relative to the client build root
+  fileName: string;
+}
+
+/**
+ * The srcset widths for a source, capped at its intrinsic width so nothing is upscaled
+ */
+export function variantWidths(intrinsic: number): number[] {
+  const widths: number[] = IMAGE_WIDTHS.filter((width) => width < intrinsic);
+  const largest = IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1];
+  if (intrinsic <= largest) widths.push(intrinsic);
+  return widths.length > 0 ? widths : [intrinsic];
+}
+
+function variantsOf(source: SourceImage): Variant[] {
+  const { name } = parse(source.src);
+  return IMAGE_FORMATS.flatMap((format) =>
+    variantWidths(source.width).map((width) => ({
+      source,
+      width,
+      format,
+      fileName: `${ASSETS_DIR}/${name}-${width}.${source.hash.slice(0, 8)}.${format}`
+    }))
+  );
+}
+
+export function imageAsset(source: SourceImage): ImageAsset {
+  const variants = variantsOf(source);
+  const sources = Object.fromEntries(
+    IMAGE_FORMATS.map((format) => [
+      format,
+      variants
+        .filter((variant) => variant.format === format)
+        .map((variant) => ({ src: `/${variant.fileName}`, width: variant.width }))
+    ])
+  ) as ImageAsset['sources'];
+
+  return { src: source.src, width: source.width, height: source.height, placeholder: source.placeholder, sources };
+}
+
+/**
+ * Intrinsic size and placeholder for one image
+ */
+export async function readSourceImage(dir: string, src: string): Promise<SourceImage> {
+  const file = join(dir, src);
+  const data = await readFile(file);
+  const image = sharp(data);
+  const { width, height, orientation } = await image.metadata();
+  if (!width || !height) throw new Error(`Could not read the dimensions of ${file}`);
+
+  // EXIF orientations 5-8 are rotated a quarter turn, so the displayed size is transposed
+  const rotated = orientation !== undefined && orientation >= 5;
+  const preview = await image.rotate().resize({ width: 16 }).blur(1).webp({ quality: 40 }).toBuffer();
+
+  return {
+    src,
+    file,
+    hash: createHash('sha256').update(data).digest('hex'),
+    width: rotated ? height : width,
+    height: rotated ? width : height,
+    placeholder: `data:image/webp;base64,${preview.toString('base64')}`
+  };
+}
+
+export async function scanSourceImages(dir: string): Promise<SourceImage[]> {
+  const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+  const paths = entries
+    .filter((entry) => entry.isFile() && SOURCE_EXTENSIONS.has(parse(entry.name).ext.toLowerCase()))
+    .map((entry) => `/${relative(dir, join(entry.parentPath, entry.name)).split(sep).join('/')}`)
+    .sort();
+
+  return Promise.all(paths.map((src) => readSourceImage(dir, src)));
+}
+
+/**
+ * Encode one variant, reusing the cached file when the source and settings are unchanged
+ */
+export async function encodeVariant(
+  source: SourceImage,
+  width: number,
+  format: ImageFormat,
+  cacheDir: string
+): Promise<Buffer> {
+  const cached = join(cacheDir, `${source.hash.slice(0, 16)}-v${IMAGE_ENCODER_VERSION}-${width}.${format}`);
+  try {
+    return await readFile(cached);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+  }
+
+  const resized = sharp(source.file).rotate().resize({ width, withoutEnlargement: true });
+  const encoded = await (format === 'avif' ? resized.avif({ quality: 55, effort: 4 }) : resized.webp({ quality: 78 })).toBuffer();
+
+  await mkdir(cacheDir, { recursive: true });
+  await writeFile(cached, encoded);
+  return encoded;
+}
+
+export function responsiveImages(options: { dir?: string; cacheDir?: string } = {}): Plugin {
+  const dir = options.dir ?? 'static';
+  const cacheDir = options.cacheDir ?? 'node_modules/.cache/images';
+  let sources: Promise<SourceImage[]> | undefined;
+  let ssr = false;
+
+  const scan = () => (sources ??= scanSourceImages(dir));
+  const variants = async () => (await scan()).flatMap(variantsOf);
+
+  return {
+    name: 'tms:responsive-images',
+
+    configResolved(config) {
+      ssr = Boolean(config.build.ssr);
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : undefined;
+    },
+
+    async load(id) {
+      if (id !== RESOLVED_ID) return;
+      const manifest = Object.fromEntries((await scan()).map((source) => [source.src, imageAsset(source)]));
+      return `export default ${JSON.stringify(manifest)};`;
+    },
+
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        const path = req.url?.split('?')[0].slice(1);
+        if (!path?.startsWith(ASSETS_DIR)) return next();
+
+        try {
+          const variant = (await variants()).find((candidate) => candidate.fileName === path);
+          if (!variant) return next();
+
+          const data = await encodeVariant(variant.source, variant.width, variant.format, cacheDir);
+          res.setHeader('Content-Type', CONTENT_TYPES[variant.format]);
+          res.end(data);
+        } catch (e) {
+          next(e);
+        }
+      });
+    },
+
+    // Only the client build ships static assets; encoding is sequential to keep memory flat
+    async generateBundle() {
+      if (ssr) return;
+      for (const variant of await variants()) {
+        this.emitFile({
+          type: 'asset',
+          fileName: variant.fileName,
+          source: await encodeVariant(variant.source, variant.width, variant.format, cacheDir)
+        });
+      }
+    }
+  };
+}
@@ -0,0 +1,174 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { SeoLintError, formatLintSummary, lintPage, lintPrerendered, parseHtml, summarizeLint, type LintOptions } from './seo-lint';
+
+const siteUrl = 'https://example.com';
+const jsonLd = JSON.stringify({ '@context': 'https://schema.org', '@type': 'WebSite', name: 'Example', url: siteUrl });
+
+const page = (pathname: string, body: string, head = '') => `<!doctype html>
+<html lang="en">
+	<head>
+		<title>Brand strategy that outlasts the launch | Example</title>
+		<meta name="description" content="How we plan brand strategy before a single pixel is designed.">
+		<link rel="canonical" href="${siteUrl}${pathname}">
+		<script type="application/ld+json">${jsonLd}</script>
+		${head}
+	</head>
+	<body>
+		<a class="skip-link" href="#main-content">Skip to content</a>
+		<main id="main-content" tabindex="-1">
+			<h1>Brand strategy</h1>
+			${body}
+		</main>
+		<script>
+			const el = '<h1 id="main-content">not markup</h1>';
+		</script>
+	</body>
+</html>`;
+
+const options: LintOptions = { siteUrl, isKnownPath: (pathname) => ['/', '/work', '/contact'].includes(pathname) };
+const rules = (html: string, pathname = '/work') => lintPage(html, pathname, options).map((issue) => issue.rule);
+
+describe('parseHtml', () => {
+	it('reads elements, headings, the title and JSON-LD, ignoring scripts and comments', () => {
+		const parsed = parseHtml(
+			page('/work', '<!--[--><h2 class=lead>Why &amp; how</h2><!--]--><img src="a.webp" alt=\'\' data-x>')
+		);
+
+		expect(parsed.title).toBe('Brand strategy that outlasts the launch | Example');
+		expect(parsed.headings).toEqual([
+			{ level: 1, text: 'Brand strategy' },
+			{ level: 2, text: 'Why & how' }
+		]);
+		expect(parsed.jsonLd).toEqual([jsonLd]);
+		expect(parsed.elements.filter((element) => element.attributes.id === 'main-content')).toHaveLength(1);
+		expect(parsed.elements.find((element) => element.name === 'img')?.attributes).toEqual({ src: 'a.webp', alt: '', 'data-x': '' });
+	});
+});
+
+describe('lintPage', () => {
+	it('passes a clean page', () => {
+		expect(lintPage(page('/work', '<h2>Our work</h2><a href="/contact">Contact</a>'), '/work', options)).toEqual([]);
+	});
+
+	it('reports the SEO checklist, with failures as errors and warnings as warnings', () => {
+		const html = page('/work', '<h1>Again</h1>').replace(/<title>.*<\/title>/, '<title>Work</title>');
+
+		expect(lintPage(html, '/work', options)).toEqual([
+			{ rule: 'title', severity: 'warning', message: 'Title: 4 characters, under 30 so it may be too vague' },
+			{ rule: 'headings', severity: 'error', message: 'Heading outline: 2 h1 elements, expected one' }
+		]);
+	});
+
+	it('holds the canonical to the exact URL for the page', () => {
+		expect(lintPage(page('/work/', ''), '/work', options)).toEqual([
+			{ rule: 'canonical', severity: 'error', message: `Canonical is ${siteUrl}/work/, expected ${siteUrl}/work` }
+		]);
+		expect(rules(page('/work', '').replace(/<link rel="canonical"[^>]*>/, ''))).toEqual(['canonical']);
+	});
+
+	it('reports duplicate, invalid and missing ids', () => {
+		const html = page(
+			'/work',
+			`<section aria-labelledby="h-a"><h2 id="h-a ">A</h2></section>
+			<section aria-labelledby="h-b"><h2 id="h-b">B</h2><h2 id="h-b">C</h2></section>
+			<label for="email">Email</label><a href="#faq">FAQ</a>`
+		);
+
+		expect(lintPage(html, '/work', options).map((issue) => issue.message)).toEqual([
+			'id "h-a " is empty or contains whitespace',
+			'id "h-b" is used 2 times',
+			'<section aria-labelledby="h-a"> points at missing id "h-a"',
+			'<label for="email"> points at missing id "email"',
+			'Link to #faq has no matching id'
+		]);
+	});
+
+	it('reports images without alt text, but not decorative ones', () => {
+		expect(rules(page('/work', '<img src="/a.webp" alt=""><img src="/b.webp">'))).toEqual(['img-alt']);
+	});
+
+	it('reports internal links that do not resolve and ignores other origins', () => {
+		const html = page(
+			'/work',
+			`<a href="/about">About</a><a href="./contact">Contact</a><a href="https://elsewhere.com/about">Elsewhere</a>
+			<a href="mailto:hello@example.com">Email</a><a href="${siteUrl}/missing?x=1">Missing</a>`
+		);
+
+		expect(lintPage(html, '/work', options).map((issue) => issue.message)).toEqual([
+			'Link to /about does not resolve',
+			'Link to /missing does not resolve'
+		]);
+	});
+});
+
+describe('lintPrerendered', () => {
+	let outDir: string;
+
+	beforeAll(async () => {
+		outDir = await mkdtemp(join(tmpdir(), 'seo-lint-'));
+		await mkdir(join(outDir, 'prerendered/pages/blog'), { recursive: true });
+		await mkdir(join(outDir, 'client/images'), { recursive: true });
+
+		await writeFile(join(outDir, 'client/images/logo.png'), '');
+		await writeFile(join(outDir, 'prerendered/pages/sitemap.xml'), '');
+		await writeFile(join(outDir, 'prerendered/pages/index.html'), page('', '<a href="/blog">Blog</a><a href="/sitemap.xml">Sitemap</a>'));
+		await writeFile(join(outDir, 'prerendered/pages/blog.html'), page('/blog', '<a href="/blog/post">Post</a><a href="/contact">Contact</a>'));
+		await writeFile(
+			join(outDir, 'prerendered/pages/blog/post.html'),
+			page('/blog/post', '<img src="/images/logo.png"><a href="/blog/">Blog</a><a href="/book/123">Booking</a>')
+		);
+	});
+
+	afterAll(async () => {
+		await rm(outDir, { recursive: true, force: true });
+	});
+
+	it('lints every prerendered page against the pages and files the build produced', async () => {
+		const report = await lintPrerendered(outDir, { siteUrl, routes: ['/contact', '/book/*'] });
+
+		expect(report.pages.map((result) => [result.pathname, result.issues.map((issue) => issue.rule)])).toEqual([
+			['/blog', []],
+			['/blog/post', ['img-alt']],
+			['/', []]
+		]);
+		expect(report.summary).toEqual({ pages: 3, errors: 1, warnings: 0, rules: { 'img-alt': 1 } });
+	});
+
+	it('reports links to routes it does not know about', async () => {
+		const report = await lintPrerendered(outDir, { siteUrl });
+
+		expect(report.summary.rules).toEqual({ 'img-alt': 1, 'broken-link': 2 });
+	});
+
+	it('finds nothing to check before anything is prerendered', async () => {
+		expect((await lintPrerendered(join(outDir, 'missing'))).summary.pages).toBe(0);
+	});
+});
+
+describe('formatLintSummary', () => {
+	it('lists the pages with issues followed by the totals', () => {
+		const report = summarizeLint([
+			{ pathname: '/', issues: [] },
+			{
+				pathname: '/work',
+				issues: [
+					{ rule: 'img-alt', severity: 'error', message: '<img src="/a.webp"> has no alt attribute' },
+					{ rule: 'title', severity: 'warning', message: 'Title: 4 characters' }
+				]
+			}
+		]);
+
+		expect(formatLintSummary(report)).toBe(
+			[
+				'/work',
+				'  error    img-alt           <img src="/a.webp"> has no alt attribute',
+				'  warning  title             Title: 4 characters',
+				'2 page(s) checked: 1 error(s), 1 warning(s)'
+			].join('\n')
+		);
+		expect(new SeoLintError(report).message).toMatch(/^SEO and accessibility lint found 1 error\(s\):\n\/work\n/);
+	});
+});
@@ -0,0 +1,293 @@
+/**
+ * SEO and accessibility lint for the prerendered pages
+ * Reads every prerendered HTML file once SvelteKit has written it and checks what crawlers and
+ * assistive technology see: titles, descriptions, canonicals, headings, ids and the references
+ * to them, image alt text, internal links and JSON-LD. Writes a JSON report, prints a summary
+ * and fails the build when any page has errors.
+ */
+
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+import type { Plugin } from 'vite';
+import { site } from '../config/site';
+import { auditSeo, type SeoHeading, type SeoSnapshot } from '../seo/audit';
+import { generateCanonicalUrl } from '../seo/utils';
+import { matchesRoute, prerenderedPathname } from './budget';
+
+export type LintRule =
+  | 'title'
+  | 'description'
+  | 'canonical'
+  | 'headings'
+  | 'json-ld'
+  | 'duplicate-id'
+  | 'invalid-id'
+  | 'broken-reference'
+  | 'img-alt'
+  | 'broken-link';
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintIssue {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+}
+
+export interface PageLintResult {
+  pathname: string;
+  issues: LintIssue[];
+}
+
+export interface LintReport {
+  pages: PageLintResult[];
+  summary: {
+    pages: number;
+    errors: number;
+    warnings: number;
+    rules: Partial<Record<LintRule, number>>;
+  };
+}
+
+export class SeoLintError extends Error {
+  constructor(public report: LintReport) {
+    super(`SEO and accessibility lint found ${report.summary.errors} error(s):\n${formatLintSummary(report)}`);
+    this.name = 'SeoLintError';
+  }
+}
+
+interface HtmlElement {
+  name: string;
+  attributes: Record<string, string>;
+}
+
+export interface ParsedPage {
+  elements: HtmlElement[];
+  title?: string;
+  headings: SeoHeading[];
+  jsonLd: string[];
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decode(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return ENTITIES[code.toLowerCase()] ?? entity;
+    return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1)));
+  });
+}
+
+const textContent = (html: string) => decode(html.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+
+/**
+ * Just enough of an HTML parser for linting SvelteKit's output: every start tag with its
+ * attributes, plus the title, heading text and JSON-LD blocks
+ */
+export function parseHtml(html: string): ParsedPage {
+  const jsonLd: string[] = [];
+  // Comments include Svelte's hydration markers; script and style bodies are not markup
+  const markup = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style)\b([^>]*)>([\s\S]*?)<\/\1>/gi, (_, name: string, attributes: string, body: string) => {
+      if (/type\s*=\s*["']?application\/ld\+json/i.test(attributes)) jsonLd.push(body);
+      return `<${name}${attributes}></${name}>`;
+    });
+
+  const elements: HtmlElement[] = [];
+  for (const [, name, rawAttributes] of markup.matchAll(/<([a-z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/gi)) {
+    const attributes: Record<string, string> = {};
+    for (const [, attribute, double, single, bare] of rawAttributes.matchAll(/([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g)) {
+      attributes[attribute.toLowerCase()] = decode(double ?? single ?? bare ?? '');
+    }
+    elements.push({ name: name.toLowerCase(), attributes });
+  }
+
+  const headings = [...markup.matchAll(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi)].map(([, level, body]) => ({
+    level: Number(level),
+    text: textContent(body)
+  }));
+  const title = markup.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  return { elements, title: title === undefined ? undefined : textContent(title), headings, jsonLd };
+}
+
+export interface LintOptions {
+  siteUrl: string;
+  // Whether an internal pathname is served by the site, prerendered or not
+  isKnownPath: (pathname: string) => boolean;
+}
+
+// Targets of aria-controls often only render once expanded, so only always-present references are checked
+const ID_REFERENCES = ['aria-labelledby', 'aria-describedby', 'for'] as const;
+
+/**
+ * Lint one prerendered page
+ */
+export function lintPage(html: string, pathname: string, options: LintOptions): LintIssue[] {
+  const page = parseHtml(html);
+  const issues: LintIssue[] = [];
+  const report = (rule: LintRule, severity: LintSeverity, message: string) => issues.push({ rule, severity, message });
+
+  const find = (name: string, attribute: string, value: string) =>
+    page.elements.find((element) => element.name === name && element.attributes[attribute]?.toLowerCase() === value);
+  const canonical = find('link', 'rel', 'canonical')?.attributes.href;
+
+  const snapshot: SeoSnapshot = {
+    pathname,
+    title: page.title,
+    description: find('meta', 'name', 'description')?.attributes.content,
+    canonical,
+    headings: page.headings,
+    jsonLd: page.jsonLd
+  };
+  for (const check of auditSeo(snapshot)) {
+    // Canonicals are held to the exact URL generateCanonicalUrl produces, below
+    if (check.status === 'pass' || check.id === 'canonical') continue;
+    report(check.id, check.status === 'fail' ? 'error' : 'warning', `${check.label}: ${check.message}`);
+  }
+
+  const expected = generateCanonicalUrl(pathname, options.siteUrl);
+  if (!canonical) {
+    report('canonical', 'error', 'No canonical link');
+  } else if (canonical !== expected) {
+    report('canonical', 'error', `Canonical is ${canonical}, expected ${expected}`);
+  }
+
+  const ids = new Map<string, number>();
+  for (const { attributes } of page.elements) {
+    if (attributes.id === undefined) continue;
+    if (!attributes.id || /\s/.test(attributes.id)) {
+      report('invalid-id', 'error', `id "${attributes.id}" is empty or contains whitespace`);
+    }
+    ids.set(attributes.id, (ids.get(attributes.id) ?? 0) + 1);
+  }
+  for (const [id, count] of ids) {
+    if (count > 1) report('duplicate-id', 'error', `id "${id}" is used ${count} times`);
+  }
+
+  for (const { name, attributes } of page.elements) {
+    for (const attribute of ID_REFERENCES) {
+      for (const id of attributes[attribute]?.split(/\s+/).filter(Boolean) ?? []) {
+        if (!ids.has(id)) report('broken-reference', 'error', `<${name} ${attribute}="${attributes[attribute]}"> points at missing id "${id}"`);
+      }
+    }
+
+    if (name === 'img' && attributes.alt === undefined) {
+      report('img-alt', 'error', `<img src="${attributes.src ?? ''}"> has no alt attribute`);
+    }
+
+    if (name === 'a' && attributes.href !== undefined) {
+      const href = attributes.href;
+      if (href.startsWith('#')) {
+        const id = decodeURIComponent(href.slice(1));
+        if (id && !ids.has(id)) report('broken-reference', 'error', `Link to #${id} has no matching id`);
+        continue;
+      }
+
+      const url = new URL(href, `${options.siteUrl}${pathname}`);
+      if (url.origin !== new URL(options.siteUrl).origin) continue;
+      if (!options.isKnownPath(url.pathname)) report('broken-link', 'error', `Link to ${url.pathname} does not resolve`);
+    }
+  }
+
+  return issues;
+}
+
+export function summarizeLint(pages: PageLintResult[]): LintReport {
+  const issues = pages.flatMap((page) => page.issues);
+  const rules: LintReport['summary']['rules'] = {};
+  for (const issue of issues) rules[issue.rule] = (rules[issue.rule] ?? 0) + 1;
+
+  return {
+    pages,
+    summary: {
+      pages: pages.length,
+      errors: issues.filter((issue) => issue.severity === 'error').length,
+      warnings: issues.filter((issue) => issue.severity === 'warning').length,
+      rules
+    }
+  };
+}
+
+/**
+ * Every page with issues and what they are, followed by the totals
+ */
+export function formatLintSummary(report: LintReport): string {
+  const lines: string[] = [];
+  for (const page of report.pages.filter((result) => result.issues.length > 0)) {
+    lines.push(page.pathname);
+    for (const issue of page.issues) {
+      lines.push(`  ${issue.severity.padEnd(7)}  ${issue.rule.padEnd(16)}  ${issue.message}`);
+    }
+  }
+
+  const { pages, errors, warnings } = report.summary;
+  lines.push(`${pages} page(s) checked: ${errors} error(s), ${warnings} warning(s)`);
+  return lines.join('\n');
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  try {
+    const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+    return entries.filter((entry) => entry.isFile()).map((entry) => relative(dir, join(entry.parentPath, entry.name)));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw e;
+  }
+}
+
+/**
+ * Lint every prerendered page in a SvelteKit output directory
+ * `routes` lists pathnames served without prerendering, e.g. form pages, so links to them resolve
+ */
+export async function lintPrerendered(outDir: string, options: { siteUrl?: string; routes?: string[] } = {}): Promise<LintReport> {
+  const pagesDir = join(outDir, 'prerendered/pages');
+  const prerendered = await listFiles(pagesDir);
+  const assets = await listFiles(join(outDir, 'client'));
+
+  const known = new Set([
+    ...prerendered.map((file) => (file.endsWith('.html') ? prerenderedPathname(file) : `/${file.split(sep).join('/')}`)),
+    ...assets.map((file) => `/${file.split(sep).join('/')}`)
+  ]);
+  const isKnownPath = (pathname: string) =>
+    known.has(pathname) || known.has(pathname.replace(/\/$/, '')) || (options.routes ?? []).some((pattern) => matchesRoute(pathname, pattern));
+
+  const pages: PageLintResult[] = [];
+  for (const file of prerendered.filter((name) => name.endsWith('.html')).sort()) {
+    const pathname = prerenderedPathname(file);
+    const html = await readFile(join(pagesDir, file), 'utf-8');
+    pages.push({ pathname, issues: lintPage(html, pathname, { siteUrl: options.siteUrl ?? site.url, isKnownPath }) });
+  }
+  return summarizeLint(pages);
+}
+
+export function seoLint(options: { routes?: string[]; outDir?: string; reportFile?: string } = {}): Plugin {
+  const outDir = options.outDir ?? '.svelte-kit/output';
+  const reportFile = options.reportFile ?? join(outDir, 'seo-lint.json');
+  let ssr = false;
+
+  return {
+    name: 'tms:seo-lint',
+    apply: 'build',
+
+    configResolved(config) {
+      ssr = Boolean(config.build.ssr);
+    },
+
+    // Runs after SvelteKit's own writeBundle, which is where prerendering happens
+    writeBundle: {
+      order: 'post',
+      sequential: true,
+      async handler() {
+        if (!ssr) return;
+
+        const report = await lintPrerendered(outDir, { routes: options.routes });
+        if (report.summary.pages === 0) return;
+
+        await writeFile(reportFile, `${JSON.stringify(report, null, 2)}\n`);
+        console.log(`\nSEO and accessibility lint (${reportFile})\n${formatLintSummary(report)}\n`);
+        if (report.summary.errors > 0) throw new SeoLintError(report);
+      }
+    }
+  };
+}
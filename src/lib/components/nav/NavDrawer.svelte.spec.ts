@@ -0,0 +1,174 @@
+import { page as screen, userEvent } from '@vitest/browser/context';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { render } from 'vitest-browser-svelte';
+import { page } from '$app/state';
+import { pushState } from '$app/navigation';
+import type { NavLink } from '$lib/config/routes';
+import NavDrawer from './NavDrawer.svelte';
+
+// A reactive stand-in for SvelteKit's page state, which only exists once the router has started
+vi.mock('$app/state', async () => {
+	const { SvelteMap } = await import('svelte/reactivity');
+	const current = new SvelteMap<string, unknown>();
+	return {
+		page: {
+			get url() {
+				return current.get('url') as URL;
+			},
+			set url(url: URL) {
+				current.set('url', url);
+			},
+			get state() {
+				return (current.get('state') ?? {}) as App.PageState;
+			},
+			set state(state: App.PageState) {
+				current.set('state', state);
+			}
+		}
+	};
+});
+
+vi.mock('$app/navigation', async () => {
+	const { page } = await import('$app/state');
+	return {
+		pushState: vi.fn((_url: string, state: App.PageState) => {
+			(page as { state: App.PageState }).state = state;
+		})
+	};
+});
+
+vi.mock('$lib/analytics/track', () => ({ track: vi.fn() }));
+
+const mockPage = page as { url: URL; state: App.PageState };
+
+const links: NavLink[] = [
+	{ href: '/', label: 'Home' },
+	{
+		href: '/services',
+		label: 'Services',
+		children: [
+			{ href: '/services/web-design', label: 'Web Design' },
+			{ href: '/services/seo', label: 'SEO' }
+		]
+	},
+	{ href: '/work', label: 'Our Work' },
+	{ href: '/contact', label: 'Contact Us' }
+];
+
+const link = (name: string) => screen.getByRole('link', { name, exact: true });
+
+async function openMenu() {
+	await screen.getByRole('button', { name: 'Open menu' }).click();
+	await expect.element(screen.getByRole('dialog', { name: 'Menu' })).toBeVisible();
+}
+
+beforeEach(() => {
+	mockPage.url = new URL('http://localhost/');
+	mockPage.state = {};
+	// Closing steps back through history, which pops the state pushed on open
+	vi.spyOn(history, 'back').mockImplementation(() => (mockPage.state = {}));
+});
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('NavDrawer', () => {
+	it('opens as a dialog in its own history entry', async () => {
+		render(NavDrawer, { links });
+
+		const trigger = screen.getByRole('button', { name: 'Open menu' });
+		await expect.element(trigger).toHaveAttribute('aria-expanded', 'false');
+
+		await openMenu();
+		expect(pushState).toHaveBeenCalledWith('', { navOpen: true });
+		await expect.element(screen.getByRole('dialog', { name: 'Menu' })).toHaveAttribute('aria-modal', 'true');
+		await expect.element(screen.getByRole('navigation', { name: 'Main' })).toBeVisible();
+	});
+
+	it('starts on the current page with its submenu open', async () => {
+		mockPage.url = new URL('http://localhost/services/seo');
+		render(NavDrawer, { links });
+		await openMenu();
+
+		await expect.element(link('SEO')).toHaveFocus();
+		await expect.element(link('SEO')).toHaveAttribute('aria-current', 'page');
+		await expect.element(link('Services')).not.toHaveAttribute('aria-current');
+		await expect.element(screen.getByRole('button', { name: 'Services pages' })).toHaveAttribute('aria-expanded', 'true');
+	});
+
+	it('moves a single tab stop with the arrow keys, Home and End', async () => {
+		render(NavDrawer, { links });
+		await openMenu();
+		await expect.element(link('Home')).toHaveFocus();
+
+		await userEvent.keyboard('{ArrowDown}');
+		await expect.element(link('Services')).toHaveFocus();
+		await expect.element(link('Services')).toHaveAttribute('tabindex', '0');
+		await expect.element(link('Home')).toHaveAttribute('tabindex', '-1');
+
+		await userEvent.keyboard('{End}');
+		await expect.element(link('Contact Us')).toHaveFocus();
+
+		await userEvent.keyboard('{ArrowDown}');
+		await expect.element(link('Home')).toHaveFocus();
+
+		await userEvent.keyboard('{ArrowUp}');
+		await expect.element(link('Contact Us')).toHaveFocus();
+
+		await userEvent.keyboard('{Home}');
+		await expect.element(link('Home')).toHaveFocus();
+	});
+
+	it('opens and leaves submenus with the right and left arrows', async () => {
+		render(NavDrawer, { links });
+		await openMenu();
+		await userEvent.keyboard('{ArrowDown}');
+
+		await expect.element(link('Web Design')).not.toBeInTheDocument();
+		await userEvent.keyboard('{ArrowRight}');
+		await expect.element(link('Web Design')).toHaveFocus();
+
+		await userEvent.keyboard('{ArrowDown}');
+		await expect.element(link('SEO')).toHaveFocus();
+
+		await userEvent.keyboard('{ArrowDown}');
+		await expect.element(link('Our Work')).toHaveFocus();
+
+		await userEvent.keyboard('{ArrowUp}{ArrowLeft}');
+		await expect.element(link('Services')).toHaveFocus();
+		await expect.element(link('SEO')).not.toBeInTheDocument();
+		await expect.element(screen.getByRole('button', { name: 'Services pages' })).toHaveAttribute('aria-expanded', 'false');
+	});
+
+	it('keeps focus inside while open and returns it to the toggle on Escape', async () => {
+		render(NavDrawer, { links });
+		await openMenu();
+
+		await userEvent.tab();
+		await expect.element(screen.getByRole('button', { name: 'Close menu' })).toHaveFocus();
+		await userEvent.tab();
+		await expect.element(link('Home')).toHaveFocus();
+
+		await userEvent.keyboard('{Escape}');
+		expect(history.back).toHaveBeenCalledOnce();
+		await expect.element(screen.getByRole('dialog')).not.toBeInTheDocument();
+		await expect.element(screen.getByRole('button', { name: 'Open menu' })).toHaveFocus();
+	});
+
+	it('closes when the back button pops its history entry', async () => {
+		render(NavDrawer, { links });
+		await openMenu();
+
+		mockPage.state = {};
+		await expect.element(screen.getByRole('dialog')).not.toBeInTheDocument();
+		expect(history.back).not.toHaveBeenCalled();
+	});
+
+	it('locks page scroll while open', async () => {
+		render(NavDrawer, { links });
+		await openMenu();
+
+		expect(getComputedStyle(document.body).overflow).toBe('hidden');
+	});
+});
@@ -0,0 +1,174 @@
+/**
+ * Route manifest: the one list of the site's fixed routes
+ * The header nav, prerender entries, breadcrumbs and sitemap all read from here. It is plain
+ * JavaScript typed with JSDoc so svelte.config.js can import it without a build step, which
+ * also means it must not import anything through $lib.
+ */
+
+/**
+ * @typedef {object} SitemapOptions
+ * @property {number} priority
+ * @property {import('../seo/utils').ChangeFrequency} changefreq
+ */
+
+/**
+ * @typedef {object} RouteEntry
+ * @property {string} path
+ * @property {string} label - Shown in the header nav
+ * @property {string} [breadcrumb] - Shown in breadcrumbs, defaults to label
+ * @property {boolean} nav - Whether the header nav links to it
+ * @property {boolean} prerender - Whether it is a prerender entry; pages with forms render on request
+ * @property {SitemapOptions} [sitemap] - Left out for routes that are not pages, e.g. feeds
+ * @property {boolean} [hidden] - Not linked, prerendered or listed anywhere until it has content
+ */
+
+/**
+ * @typedef {object} NavLink
+ * @property {string} href
+ * @property {string} label
+ * @property {NavLink[]} [children] - Shown as a submenu
+ */
+
+/** @type {RouteEntry[]} */
+export const routes = [
+  {
+    path: '/',
+    label: 'Home',
+    nav: true,
+    prerender: true,
+    sitemap: { priority: 1.0, changefreq: 'weekly' }
+  },
+  {
+    path: '/services',
+    label: 'Services',
+    nav: true,
+    prerender: true,
+    sitemap: { priority: 0.9, changefreq: 'monthly' }
+  },
+  {
+    path: '/work',
+    label: 'Our Work',
+    breadcrumb: 'Work',
+    nav: true,
+    prerender: true,
+    sitemap: { priority: 0.8, changefreq: 'monthly' },
+    // Until the first case study is published
+    hidden: true
+  },
+  {
+    path: '/blog',
+    label: 'Blog',
+    nav: false,
+    prerender: true,
+    sitemap: { priority: 0.8, changefreq: 'weekly' }
+  },
+  {
+    path: '/contact',
+    label: 'Contact Us',
+    breadcrumb: 'Contact',
+    nav: true,
+    prerender: false,
+    sitemap: { priority: 0.8, changefreq: 'yearly' }
+  },
+  {
+    path: '/book',
+    label: 'Book a Call',
+    breadcrumb: 'Book a discovery call',
+    nav: false,
+    prerender: false,
+    sitemap: { priority: 0.7, changefreq: 'yearly' }
+  },
+  { path: '/sitemap.xml', label: 'Sitemap', nav: false, prerender: true },
+  { path: '/rss.xml', label: 'RSS feed', nav: false, prerender: true },
+  { path: '/atom.xml', label: 'Atom feed', nav: false, prerender: true },
+  { path: '/feed.json', label: 'JSON feed', nav: false, prerender: true }
+];
+
+/**
+ * Prerendered routes whose entries() can legitimately come back empty, e.g. /blog/page/2 only
+ * exists once there is more than a page of posts
+ */
+export const optionalPrerenderRoutes = ['/blog/page/[page]', '/sitemap-[page].xml'];
+
+/**
+ * Whether a prerendered route may go unbuilt: an optional route, or a hidden path or anything under it
+ * @param {string} id - Route id, e.g. /work/[slug]
+ * @returns {boolean}
+ */
+export function isOptionalPrerenderRoute(id) {
+  return (
+    optionalPrerenderRoutes.includes(id) ||
+    routes.some((route) => route.hidden && (id === route.path || id.startsWith(`${route.path}/`)))
+  );
+}
+
+/**
+ * @param {string} path
+ * @returns {RouteEntry | undefined}
+ */
+export function findRoute(path) {
+  return routes.find((route) => route.path === path);
+}
+
+/**
+ * @param {string} path
+ * @returns {RouteEntry}
+ */
+export function getRoute(path) {
+  const route = findRoute(path);
+  if (!route) {
+    throw new Error(`No route registered for ${path}`);
+  }
+  return route;
+}
+
+/**
+ * Links for the header nav, in manifest order
+ * Submenus are keyed by path since their pages usually come from content, e.g. each service.
+ * @param {Record<string, NavLink[]>} [submenus]
+ * @returns {NavLink[]}
+ */
+export function navLinks(submenus = {}) {
+  return routes
+    .filter((route) => route.nav && !route.hidden)
+    .map((route) => ({ href: route.path, label: route.label, children: submenus[route.path] }));
+}
+
+/**
+ * Paths SvelteKit starts crawling from when prerendering
+ * @returns {string[]}
+ */
+export function prerenderEntries() {
+  return routes.filter((route) => route.prerender && !route.hidden).map((route) => route.path);
+}
+
+/**
+ * Sitemap priority and change frequency for a manifest page
+ * @param {string} path
+ * @returns {SitemapOptions}
+ */
+export function sitemapOptions(path) {
+  const { sitemap } = getRoute(path);
+  if (!sitemap) {
+    throw new Error(`${path} is not in the sitemap`);
+  }
+  return sitemap;
+}
+
+/**
+ * Label for one level of a breadcrumb trail
+ * Paths outside the manifest, e.g. a blog post, take the name given (its title, or a catalog name)
+ * and only without one fall back to their last segment in sentence case.
+ * @param {string} path
+ * @param {string} [name]
+ * @returns {string}
+ */
+export function breadcrumbLabel(path, name) {
+  const route = findRoute(path);
+  if (route) return route.breadcrumb ?? route.label;
+  if (name) return name;
+
+  const segment = decodeURIComponent(path.split('/').filter(Boolean).pop() ?? '');
+  const words = segment.replace(/[-_]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
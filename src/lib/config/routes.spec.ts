@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { site } from './site';
+import { generateBreadcrumbSchema } from '$lib/seo/utils';
+import {
+	breadcrumbLabel,
+	isOptionalPrerenderRoute,
+	navLinks,
+	optionalPrerenderRoutes,
+	prerenderEntries,
+	routes,
+	sitemapOptions
+} from './routes';
+
+// Route ids as SvelteKit reports them, e.g. /blog/[slug] or /sitemap-[page].xml
+const routeIds = Object.keys(import.meta.glob('/src/routes/**/+{page.svelte,server.ts}')).map(
+	(file) => file.replace(/^\/src\/routes/, '').replace(/\/\+(page\.svelte|server\.ts)$/, '') || '/'
+);
+
+describe('route manifest', () => {
+	it.each(routes.map((route) => [route.path] as const))('%s resolves to a route', (path) => {
+		expect(routeIds).toContain(path);
+	});
+
+	it.each(optionalPrerenderRoutes.map((id) => [id] as const))('%s is a route', (id) => {
+		expect(routeIds).toContain(id);
+	});
+
+	it('lists each path once', () => {
+		expect(new Set(routes.map((route) => route.path)).size).toBe(routes.length);
+	});
+
+	it('only links the nav to pages', () => {
+		expect(navLinks()).toEqual([
+			{ href: '/', label: 'Home' },
+			{ href: '/services', label: 'Services' },
+			{ href: '/contact', label: 'Contact Us' }
+		]);
+		expect(routes.filter((route) => route.nav).every((route) => route.sitemap)).toBe(true);
+	});
+
+	it('attaches submenus by path', () => {
+		const services = [{ href: '/services/seo', label: 'SEO' }];
+
+		expect(navLinks({ '/services': services }).find((link) => link.href === '/services')?.children).toBe(services);
+	});
+
+	it('prerenders everything but the form pages and hidden routes', () => {
+		expect(prerenderEntries()).toEqual(['/', '/services', '/blog', '/sitemap.xml', '/rss.xml', '/atom.xml', '/feed.json']);
+	});
+
+	it('lets optional and hidden routes go unbuilt', () => {
+		expect(isOptionalPrerenderRoute('/blog/page/[page]')).toBe(true);
+		expect(isOptionalPrerenderRoute('/work')).toBe(true);
+		expect(isOptionalPrerenderRoute('/work/[slug]')).toBe(true);
+		expect(isOptionalPrerenderRoute('/workshop')).toBe(false);
+		expect(isOptionalPrerenderRoute('/services/[slug]')).toBe(false);
+	});
+
+	it('gives sitemap options for pages and refuses feeds', () => {
+		expect(sitemapOptions('/')).toEqual({ priority: 1.0, changefreq: 'weekly' });
+		expect(() => sitemapOptions('/rss.xml')).toThrow('/rss.xml is not in the sitemap');
+		expect(() => sitemapOptions('/about')).toThrow('No route registered for /about');
+	});
+});
+
+describe('breadcrumbLabel', () => {
+	it('uses the manifest label, preferring the breadcrumb label', () => {
+		expect(breadcrumbLabel('/')).toBe('Home');
+		expect(breadcrumbLabel('/services')).toBe('Services');
+		expect(breadcrumbLabel('/work')).toBe('Work');
+	});
+
+	it('uses the given name for paths outside the manifest', () => {
+		expect(breadcrumbLabel('/blog/core-web-vitals-for-marketing-sites', 'Core Web Vitals for Marketing Sites')).toBe(
+			'Core Web Vitals for Marketing Sites'
+		);
+		expect(breadcrumbLabel('/services', 'Our Services')).toBe('Services');
+	});
+
+	it('falls back to the last segment in sentence case', () => {
+		expect(breadcrumbLabel('/blog/core-web-vitals-for-marketing-sites')).toBe('Core web vitals for marketing sites');
+	});
+});
+
+describe('generateBreadcrumbSchema', () => {
+	const names = (pathname: string, title?: string) =>
+		generateBreadcrumbSchema(pathname, site, title)?.itemListElement.map((item) => item.name);
+
+	it('labels the page with its title and the levels above from the manifest', () => {
+		expect(names('/services/seo', 'SEO Services')).toEqual(['Home', 'Services', 'SEO Services']);
+		expect(names('/blog/core-web-vitals', 'Core Web Vitals, Explained')).toEqual(['Home', 'Blog', 'Core Web Vitals, Explained']);
+	});
+
+	it('uses catalog names for levels between the manifest and the page', () => {
+		expect(names('/services/seo/audit', 'Technical SEO Audit')).toEqual([
+			'Home',
+			'Services',
+			'SEO Services',
+			'Technical SEO Audit'
+		]);
+	});
+});
@@ -0,0 +1,150 @@
+/**
+ * Site-wide configuration for Tait Media Solutions
+ * The single source of brand, organization and catalog facts - the layout, SEO
+ * generators and Header all read from here. Invalid values throw at import, which fails the build.
+ */
+
+import type { AnalyticsConfig } from '$lib/analytics/track';
+import { defineSiteConfig } from './validate';
+
+export type SocialNetwork = 'twitter' | 'linkedin' | 'instagram' | 'facebook' | 'youtube';
+
+export interface SocialProfile {
+  network: SocialNetwork;
+  url: string;
+  label: string;
+}
+
+export interface SiteService {
+  slug: string;
+  name: string;
+  description: string;
+}
+
+export interface SitePlace {
+  type: 'Country' | 'State' | 'City';
+  name: string;
+}
+
+export interface SiteAddress {
+  streetAddress?: string;
+  addressLocality: string;
+  addressRegion?: string;
+  postalCode?: string;
+  // ISO 3166-1 alpha-2
+  addressCountry: string;
+}
+
+export interface SiteOrganization {
+  legalName: string;
+  // YYYY, YYYY-MM or YYYY-MM-DD
+  foundingDate: string;
+  email?: string;
+  telephone?: string;
+  address: SiteAddress;
+  geo: { latitude: number; longitude: number };
+  // Metres around geo that we take on clients from
+  serviceRadius: number;
+  // Default area for Service JSON-LD; services can narrow it
+  areaServed: SitePlace[];
+  knowsAbout: string[];
+}
+
+export interface BrandColors {
+  primary: string;
+  secondary: string;
+  accent: string;
+  dark: string;
+  light: string;
+}
+
+export interface SiteConfig {
+  title: string;
+  description: string;
+  // Absolute origin without a trailing slash
+  url: string;
+  twitter: string;
+  defaultImage: string;
+  logo: string;
+  favicon: string;
+  author: string;
+  keywords: string;
+  lang: string;
+  locale: string;
+  type: string;
+  themeColor: string;
+  brandColors: BrandColors;
+  organization: SiteOrganization;
+  social: SocialProfile[];
+  services: SiteService[];
+  // Where track() sends events: 'api' (our own endpoint), 'plausible', 'gtag' or 'none'
+  analytics: AnalyticsConfig;
+}
+
+export const site: SiteConfig = defineSiteConfig({
+  title: 'Tait Media Solutions',
+  description: 'Award-winning digital marketing agency delivering high-performance campaigns with Awwwards-level design. SEO, PPC, and creative solutions that drive results.',
+  url: 'https://taitmedia.com',
+  twitter: '@TaitMediaSolutions',
+  defaultImage: '/og/default.png',
+  logo: '/logo.png',
+  favicon: '/favicon.ico',
+  author: 'Tait Media Solutions',
+  keywords: 'digital marketing, SEO, PPC, web design, creative agency, performance marketing, awwwards',
+  lang: 'en',
+  locale: 'en_US',
+  type: 'website',
+  themeColor: '#1e40af', // Red Bull Racing inspired blue
+  brandColors: {
+    primary: '#1e40af',   // RB Racing Blue
+    secondary: '#dc2626', // RB Racing Red
+    accent: '#fbbf24',    // RB Racing Yellow
+    dark: '#0f172a',      // Dark blue
+    light: '#f8fafc'      // Light blue-gray
+  },
+  organization: {
+    legalName: 'Tait Media Solutions',
+    foundingDate: '2024',
+    address: {
+      addressLocality: 'San Francisco',
+      addressRegion: 'CA',
+      addressCountry: 'US'
+    },
+    geo: { latitude: 37.7749, longitude: -122.4194 },
+    serviceRadius: 1000,
+    areaServed: [{ type: 'Country', name: 'United States' }],
+    knowsAbout: ['Digital Marketing', 'Search Engine Optimization', 'Web Design']
+  },
+  social: [
+    { network: 'twitter', url: 'https://twitter.com/TaitMediaSolutions', label: 'Twitter' },
+    { network: 'linkedin', url: 'https://linkedin.com/company/tait-media-solutions', label: 'LinkedIn' }
+  ],
+  services: [
+    {
+      slug: 'web-design',
+      name: 'Web Design',
+      description: 'Custom website design and development services'
+    },
+    {
+      slug: 'social-media',
+      name: 'Social Media',
+      description: 'Social media strategy, content and community management'
+    },
+    {
+      slug: 'brand-strategy',
+      name: 'Brand Strategy',
+      description: 'Positioning, messaging and visual identity that make a business easy to choose'
+    },
+    {
+      slug: 'seo',
+      name: 'SEO Services',
+      description: 'Search Engine Optimization services to improve organic visibility'
+    },
+    {
+      slug: 'digital-marketing',
+      name: 'Digital Marketing',
+      description: 'Comprehensive digital marketing campaigns and strategy'
+    }
+  ],
+  analytics: { adapter: 'api' }
+});
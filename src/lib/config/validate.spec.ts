@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { site } from './site';
+import { defineSiteConfig, SiteConfigError, validateSiteConfig } from './validate';
+
+describe('validateSiteConfig', () => {
+	it('accepts the shipped site config', () => {
+		expect(validateSiteConfig(site)).toEqual([]);
+	});
+
+	it('reports every invalid value', () => {
+		const issues = validateSiteConfig({
+			...site,
+			url: 'http://taitmedia.com/',
+			themeColor: 'blue',
+			brandColors: { ...site.brandColors, accent: '#fbbf2' },
+			organization: { ...site.organization, foundingDate: '24', geo: { latitude: 137, longitude: 0 } },
+			social: [...site.social, { network: 'twitter', url: 'twitter.com/other', label: 'Twitter' }],
+			services: [...site.services, { slug: 'Web Design', name: 'Web Design', description: 'Again' }]
+		});
+
+		expect(issues).toEqual([
+			'url must be an https origin without a trailing slash',
+			'themeColor must be a hex color',
+			'brandColors.accent must be a hex color',
+			'organization.foundingDate must be YYYY, YYYY-MM or YYYY-MM-DD',
+			'organization.geo.latitude must be between -90 and 90',
+			'social[2].url must be an https URL',
+			'social[2] repeats twitter',
+			`services[${site.services.length}].slug must be lowercase kebab-case`
+		]);
+	});
+
+	it('throws so the build fails on an invalid config', () => {
+		expect(() => defineSiteConfig({ ...site, twitter: 'TaitMedia' })).toThrow(SiteConfigError);
+		expect(() => defineSiteConfig({ ...site, twitter: 'TaitMedia' })).toThrow(/twitter must be a handle/);
+	});
+});
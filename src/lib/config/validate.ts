@@ -0,0 +1,111 @@
+/**
+ * Validation for the site config
+ * Runs when site.ts is imported, so a bad value stops the build instead of shipping broken metadata
+ */
+
+import type { SiteConfig } from './site';
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export class SiteConfigError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid site config:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'SiteConfigError';
+  }
+}
+
+function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Root-relative paths are resolved against site.url; anything else must be absolute
+function isAssetPath(value: string): boolean {
+  return /^\/[^/]/.test(value) || isHttpsUrl(value);
+}
+
+/**
+ * Collect every problem with a site config, empty when it is valid
+ */
+export function validateSiteConfig(config: SiteConfig): string[] {
+  const issues: string[] = [];
+  const check = (ok: boolean, message: string) => {
+    if (!ok) issues.push(message);
+  };
+
+  for (const field of ['title', 'description', 'author', 'keywords'] as const) {
+    check(config[field].trim().length > 0, `${field} is required`);
+  }
+  check(config.description.length <= 160, 'description must be 160 characters or fewer');
+
+  check(isHttpsUrl(config.url) && !config.url.endsWith('/'), 'url must be an https origin without a trailing slash');
+  check(/^@\w+$/.test(config.twitter), 'twitter must be a handle like @name');
+  for (const field of ['defaultImage', 'logo', 'favicon'] as const) {
+    check(isAssetPath(config[field]), `${field} must be a root-relative path or https URL`);
+  }
+
+  check(/^[a-z]{2}(?:-[A-Z]{2})?$/.test(config.lang), 'lang must be a BCP 47 tag like en or en-US');
+  check(/^[a-z]{2}_[A-Z]{2}$/.test(config.locale), 'locale must look like en_US');
+
+  check(HEX_COLOR.test(config.themeColor), 'themeColor must be a hex color');
+  for (const [name, color] of Object.entries(config.brandColors)) {
+    check(HEX_COLOR.test(color), `brandColors.${name} must be a hex color`);
+  }
+
+  const { organization } = config;
+  check(organization.legalName.trim().length > 0, 'organization.legalName is required');
+  check(
+    /^\d{4}(?:-\d{2}(?:-\d{2})?)?$/.test(organization.foundingDate),
+    'organization.foundingDate must be YYYY, YYYY-MM or YYYY-MM-DD'
+  );
+  check(organization.address.addressLocality.trim().length > 0, 'organization.address.addressLocality is required');
+  check(/^[A-Z]{2}$/.test(organization.address.addressCountry), 'organization.address.addressCountry must be an ISO country code');
+  check(Math.abs(organization.geo.latitude) <= 90, 'organization.geo.latitude must be between -90 and 90');
+  check(Math.abs(organization.geo.longitude) <= 180, 'organization.geo.longitude must be between -180 and 180');
+  check(organization.serviceRadius > 0, 'organization.serviceRadius must be positive');
+  check(organization.areaServed.length > 0, 'organization.areaServed needs at least one place');
+  organization.areaServed.forEach((place, index) => {
+    check(place.name.trim().length > 0, `organization.areaServed[${index}].name is required`);
+  });
+  if (organization.email !== undefined) {
+    check(/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(organization.email), 'organization.email is not an email address');
+  }
+
+  const networks = new Set<string>();
+  config.social.forEach((profile, index) => {
+    check(isHttpsUrl(profile.url), `social[${index}].url must be an https URL`);
+    check(profile.label.trim().length > 0, `social[${index}].label is required`);
+    check(!networks.has(profile.network), `social[${index}] repeats ${profile.network}`);
+    networks.add(profile.network);
+  });
+
+  const slugs = new Set<string>();
+  config.services.forEach((service, index) => {
+    check(SLUG.test(service.slug), `services[${index}].slug must be lowercase kebab-case`);
+    check(!slugs.has(service.slug), `services[${index}] repeats slug ${service.slug}`);
+    check(service.name.trim().length > 0, `services[${index}].name is required`);
+    check(service.description.trim().length > 0, `services[${index}].description is required`);
+    slugs.add(service.slug);
+  });
+
+  if (config.analytics.adapter === 'plausible') {
+    check(config.analytics.domain.trim().length > 0, 'analytics.domain is required for plausible');
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a site config and return it unchanged, throwing SiteConfigError when it is invalid
+ */
+export function defineSiteConfig(config: SiteConfig): SiteConfig {
+  const issues = validateSiteConfig(config);
+  if (issues.length > 0) {
+    throw new SiteConfigError(issues);
+  }
+  return config;
+}
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CONSENT_COOKIE, CONSENT_VERSION, parseConsent, serializeConsent } from './cookie';
+import { hasConsent, initConsent, setConsent } from './consent.svelte';
+
+describe('consent cookie', () => {
+	it('round-trips a stored choice', () => {
+		const state = {
+			necessary: true as const,
+			version: CONSENT_VERSION,
+			analytics: true,
+			marketing: false,
+			updatedAt: '2025-09-15T00:00:00.000Z'
+		};
+
+		expect(parseConsent(serializeConsent(state))).toEqual(state);
+	});
+
+	it('ignores malformed and outdated cookies', () => {
+		expect(parseConsent('not-json')).toBeNull();
+		expect(parseConsent(encodeURIComponent(JSON.stringify({ version: 0, analytics: true })))).toBeNull();
+	});
+});
+
+describe('hasConsent', () => {
+	let cookie: string;
+
+	beforeEach(() => {
+		cookie = '';
+		vi.stubGlobal('document', {
+			get cookie() {
+				return cookie;
+			},
+			set cookie(value: string) {
+				cookie = value.split(';')[0];
+			}
+		});
+		vi.stubGlobal('navigator', {});
+		vi.stubGlobal('location', { protocol: 'https:' });
+		initConsent(null);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('denies analytics and marketing until the visitor opts in', () => {
+		expect(hasConsent('necessary')).toBe(true);
+		expect(hasConsent('analytics')).toBe(false);
+
+		setConsent({ analytics: true, marketing: false });
+
+		expect(cookie.startsWith(`${CONSENT_COOKIE}=`)).toBe(true);
+		expect(hasConsent('analytics')).toBe(true);
+		expect(hasConsent('marketing')).toBe(false);
+	});
+
+	it('respects Global Privacy Control over a stored opt-in', () => {
+		setConsent({ analytics: true, marketing: true });
+		vi.stubGlobal('navigator', { globalPrivacyControl: true });
+
+		expect(hasConsent('analytics')).toBe(false);
+		expect(hasConsent('marketing')).toBe(false);
+	});
+
+	it('respects Do Not Track', () => {
+		vi.stubGlobal('navigator', { doNotTrack: '1' });
+		setConsent({ analytics: true, marketing: true });
+		vi.stubGlobal('navigator', {});
+
+		expect(hasConsent('analytics')).toBe(false);
+	});
+});
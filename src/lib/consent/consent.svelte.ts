@@ -0,0 +1,108 @@
+/**
+ * Client-side consent state
+ * Analytics and marketing stay off until the visitor opts in, and always off under GPC or DNT
+ */
+
+import {
+  CONSENT_COOKIE,
+  CONSENT_MAX_AGE,
+  CONSENT_VERSION,
+  parseConsent,
+  serializeConsent,
+  type ConsentCategory,
+  type ConsentChoices,
+  type ConsentState
+} from './cookie';
+
+const consent = $state<{
+  current: ConsentState | null;
+  preferencesOpen: boolean;
+}>({
+  current: null,
+  preferencesOpen: false
+});
+
+/**
+ * Read the stored choice from document.cookie
+ */
+function readConsentCookie(): ConsentState | null {
+  if (typeof document === 'undefined') return null;
+
+  const match = document.cookie
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${CONSENT_COOKIE}=`));
+
+  return parseConsent(match?.slice(CONSENT_COOKIE.length + 1));
+}
+
+/**
+ * Whether the browser sends Global Privacy Control or Do Not Track
+ */
+export function hasPrivacySignal(): boolean {
+  if (typeof navigator === 'undefined') return false;
+
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean };
+  return nav.globalPrivacyControl === true || nav.doNotTrack === '1';
+}
+
+/**
+ * Load the stored choice, preferring the browser cookie over what the server rendered with
+ * (prerendered pages never see the visitor's cookie)
+ */
+export function initConsent(serverConsent: ConsentState | null = null) {
+  consent.current = readConsentCookie() ?? serverConsent;
+}
+
+/**
+ * Check whether the visitor allows a category of cookies and tracking
+ */
+export function hasConsent(category: ConsentCategory): boolean {
+  if (category === 'necessary') return true;
+  if (typeof document === 'undefined' || hasPrivacySignal()) return false;
+
+  consent.current ??= readConsentCookie();
+  return consent.current?.[category] ?? false;
+}
+
+/**
+ * Persist the visitor's choice
+ */
+export function setConsent(choices: ConsentChoices) {
+  const state: ConsentState = {
+    necessary: true,
+    version: CONSENT_VERSION,
+    // GPC and DNT win over anything ticked in the banner
+    analytics: choices.analytics && !hasPrivacySignal(),
+    marketing: choices.marketing && !hasPrivacySignal(),
+    updatedAt: new Date().toISOString()
+  };
+
+  const secure = location.protocol === 'https:' ? '; Secure' : '';
+  document.cookie = `${CONSENT_COOKIE}=${serializeConsent(state)}; Path=/; Max-Age=${CONSENT_MAX_AGE}; SameSite=Lax${secure}`;
+
+  consent.current = state;
+  consent.preferencesOpen = false;
+}
+
+/**
+ * Whether the visitor still has to make a choice
+ */
+export function needsConsentDecision(): boolean {
+  return consent.current === null && !hasPrivacySignal();
+}
+
+/**
+ * Reopen the banner so a previous choice can be changed or withdrawn
+ */
+export function openConsentPreferences() {
+  consent.preferencesOpen = true;
+}
+
+export function closeConsentPreferences() {
+  consent.preferencesOpen = false;
+}
+
+export function getConsent() {
+  return consent;
+}
@@ -0,0 +1,67 @@
+/**
+ * Consent cookie format, shared by the server (layout load) and the browser
+ */
+
+export type ConsentCategory = 'necessary' | 'analytics' | 'marketing';
+
+export interface ConsentChoices {
+  analytics: boolean;
+  marketing: boolean;
+}
+
+export interface ConsentState extends ConsentChoices {
+  necessary: true;
+  version: number;
+  updatedAt: string;
+}
+
+export const CONSENT_COOKIE = 'tms_consent';
+
+// Bump when categories change so everyone is asked again
+export const CONSENT_VERSION = 1;
+
+// Ask again after six months
+export const CONSENT_MAX_AGE = 60 * 60 * 24 * 182;
+
+/**
+ * Parse the consent cookie value, ignoring anything stale or malformed
+ */
+export function parseConsent(value: string | undefined | null): ConsentState | null {
+  if (!value) return null;
+
+  try {
+    const parsed = JSON.parse(decodeURIComponent(value));
+    if (
+      parsed?.version !== CONSENT_VERSION ||
+      typeof parsed.analytics !== 'boolean' ||
+      typeof parsed.marketing !== 'boolean' ||
+      typeof parsed.updatedAt !== 'string'
+    ) {
+      return null;
+    }
+
+    return {
+      necessary: true,
+      version: CONSENT_VERSION,
+      analytics: parsed.analytics,
+      marketing: parsed.marketing,
+      updatedAt: parsed.updatedAt
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serialize a consent state into a cookie value
+ */
+export function serializeConsent(state: ConsentState): string {
+  return encodeURIComponent(
+    JSON.stringify({
+      version: state.version,
+      analytics: state.analytics,
+      marketing: state.marketing,
+      updatedAt: state.updatedAt
+    })
+  );
+}
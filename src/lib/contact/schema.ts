@@ -0,0 +1,27 @@
+/**
+ * Contact form schema, shared by the server action and client-side validation
+ */
+
+import { z } from 'zod';
+import { site } from '$lib/config/site';
+
+export const MESSAGE_MAX_LENGTH = 5000;
+
+const serviceSlugs = site.services.map(({ slug }) => slug) as [string, ...string[]];
+
+export const contactSchema = z.object({
+  name: z.string().trim().min(2, 'Please tell us your name').max(100),
+  email: z.string().trim().email('Please enter a valid email address').max(254),
+  company: z.string().trim().max(100).default(''),
+  service: z.enum(serviceSlugs).or(z.literal('')).default(''),
+  message: z
+    .string()
+    .trim()
+    .min(20, 'Please give us a little more detail (20 characters or more)')
+    .max(MESSAGE_MAX_LENGTH, `Please keep your message under ${MESSAGE_MAX_LENGTH} characters`),
+  // Spam checks: a field people never see, and a signed token saying when the server rendered the form
+  website: z.string().default(''),
+  startedAt: z.string().max(128).default('')
+});
+
+export type ContactForm = z.infer<typeof contactSchema>;
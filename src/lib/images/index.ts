@@ -0,0 +1,24 @@
+/**
+ * Lookups into the build-time image manifest for <Picture>
+ */
+
+import manifest from 'virtual:images';
+import type { ImageAsset, ImageVariant } from './types';
+
+export * from './types';
+
+/**
+ * The variants generated for an image in static/, throwing for anything the build did not process
+ * so a mistyped path fails prerendering instead of shipping a broken image
+ */
+export function getImage(src: string): ImageAsset {
+  const image = manifest[src];
+  if (!image) {
+    throw new Error(`No responsive variants for ${src}; images must be JPEG or PNG files in static/`);
+  }
+  return image;
+}
+
+export function srcset(variants: ImageVariant[]): string {
+  return variants.map((variant) => `${variant.src} ${variant.width}w`).join(', ');
+}
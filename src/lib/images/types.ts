@@ -0,0 +1,28 @@
+/**
+ * Responsive image model shared by the build plugin and <Picture>
+ */
+
+// Listed in the order <Picture> offers them, most efficient first
+export const IMAGE_FORMATS = ['avif', 'webp'] as const;
+
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+// Candidate widths for the srcset; sources are never upscaled past their intrinsic width
+export const IMAGE_WIDTHS = [80, 160, 320, 640, 960, 1280, 1920] as const;
+
+export interface ImageVariant {
+  // Root-relative URL of the encoded file
+  src: string;
+  width: number;
+}
+
+export interface ImageAsset {
+  // The original file in static/, e.g. /racing.jpg
+  src: string;
+  width: number;
+  height: number;
+  // Tiny blurred WebP as a data URI, shown until the real image loads
+  placeholder: string;
+  // Variants per format, narrowest first
+  sources: Record<ImageFormat, ImageVariant[]>;
+}
@@ -0,0 +1,5 @@
+// Generated by the responsiveImages Vite plugin, keyed by the image's path in static/
+declare module 'virtual:images' {
+  const manifest: Record<string, import('./types').ImageAsset>;
+  export default manifest;
+}
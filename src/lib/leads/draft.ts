@@ -0,0 +1,38 @@
+/**
+ * Partially completed qualification answers, kept for the browser tab's session
+ * so closing the dialog or reloading the page does not lose them
+ */
+
+import type { LeadDraftAnswers } from './index';
+
+export const LEAD_DRAFT_KEY = 'tms:lead-draft';
+
+export interface LeadDraft {
+  step: number;
+  answers: LeadDraftAnswers;
+}
+
+export function loadLeadDraft(): LeadDraft | null {
+  try {
+    const stored = sessionStorage.getItem(LEAD_DRAFT_KEY);
+    return stored ? (JSON.parse(stored) as LeadDraft) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveLeadDraft(draft: LeadDraft): void {
+  try {
+    sessionStorage.setItem(LEAD_DRAFT_KEY, JSON.stringify(draft));
+  } catch {
+    // Storage full or disabled - the flow still works, it just won't survive a reload
+  }
+}
+
+export function clearLeadDraft(): void {
+  try {
+    sessionStorage.removeItem(LEAD_DRAFT_KEY);
+  } catch {
+    // Nothing to clear
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Lead qualification flow behind the homepage "PROVE IT" CTA
+ * Steps, answer schema and scoring are shared so the server re-scores exactly what the client asked
+ */
+
+import { z } from 'zod';
+import { site } from '$lib/config/site';
+
+export * from './draft';
+
+export interface LeadOption<T extends string = string> {
+  value: T;
+  label: string;
+  points: number;
+}
+
+export const GOAL_OPTIONS = [
+  { value: 'more-leads', label: 'Generate more leads and sales', points: 5 },
+  { value: 'new-website', label: 'Launch or redesign our website', points: 5 },
+  { value: 'search-visibility', label: 'Rank higher in search', points: 5 },
+  { value: 'brand-awareness', label: 'Build brand awareness', points: 5 },
+  { value: 'social-growth', label: 'Grow our social media audience', points: 5 }
+] as const satisfies readonly LeadOption[];
+
+export const BUDGET_OPTIONS = [
+  { value: 'under-5k', label: 'Under $5,000', points: 5 },
+  { value: '5k-15k', label: '$5,000 - $15,000', points: 20 },
+  { value: '15k-50k', label: '$15,000 - $50,000', points: 35 },
+  { value: '50k-plus', label: '$50,000 or more', points: 40 },
+  { value: 'unsure', label: 'Not sure yet', points: 10 }
+] as const satisfies readonly LeadOption[];
+
+export const TIMELINE_OPTIONS = [
+  { value: 'asap', label: 'As soon as possible', points: 30 },
+  { value: '1-3-months', label: 'In the next 1-3 months', points: 25 },
+  { value: '3-6-months', label: 'In 3-6 months', points: 15 },
+  { value: 'exploring', label: 'Just exploring', points: 5 }
+] as const satisfies readonly LeadOption[];
+
+const values = <T extends string>(options: readonly { value: T }[]) =>
+  options.map(({ value }) => value) as [T, ...T[]];
+
+const serviceSlugs = site.services.map(({ slug }) => slug) as [string, ...string[]];
+
+export const leadSchema = z.object({
+  goals: z.array(z.enum(values(GOAL_OPTIONS))).min(1, 'Choose at least one goal'),
+  budget: z.enum(values(BUDGET_OPTIONS), { errorMap: () => ({ message: 'Choose a budget range' }) }),
+  timeline: z.enum(values(TIMELINE_OPTIONS), { errorMap: () => ({ message: 'Choose a timeline' }) }),
+  services: z.array(z.enum(serviceSlugs)).min(1, 'Choose at least one service'),
+  name: z.string().trim().min(2, 'Please tell us your name').max(100),
+  email: z.string().trim().email('Please enter a valid email address').max(254),
+  company: z.string().trim().max(100).default('')
+});
+
+export type LeadAnswers = z.infer<typeof leadSchema>;
+export type LeadField = keyof LeadAnswers;
+
+/**
+ * Answers as they are while the flow is being filled in
+ */
+export interface LeadDraftAnswers {
+  goals: string[];
+  budget: string;
+  timeline: string;
+  services: string[];
+  name: string;
+  email: string;
+  company: string;
+}
+
+export const EMPTY_ANSWERS: LeadDraftAnswers = {
+  goals: [],
+  budget: '',
+  timeline: '',
+  services: [],
+  name: '',
+  email: '',
+  company: ''
+};
+
+export interface LeadStep {
+  id: 'goals' | 'budget' | 'timeline' | 'services' | 'contact';
+  title: string;
+  description: string;
+  fields: LeadField[];
+}
+
+export const LEAD_STEPS: LeadStep[] = [
+  { id: 'goals', title: 'What are you hoping to achieve?', description: 'Pick everything that applies.', fields: ['goals'] },
+  { id: 'budget', title: 'What budget are you working with?', description: 'A rough range is fine.', fields: ['budget'] },
+  { id: 'timeline', title: 'When do you want to start?', description: 'We plan our calendar a few weeks ahead.', fields: ['timeline'] },
+  { id: 'services', title: 'Which services interest you?', description: 'Pick everything that applies.', fields: ['services'] },
+  { id: 'contact', title: 'Where should we send our thoughts?', description: 'We reply within one business day.', fields: ['name', 'email', 'company'] }
+];
+
+/**
+ * Errors for the fields of one step, empty when the step can be left
+ */
+export function validateLeadStep(step: LeadStep, answers: LeadDraftAnswers): Partial<Record<LeadField, string>> {
+  const mask = Object.fromEntries(step.fields.map((field) => [field, true])) as Partial<Record<LeadField, true>>;
+  const result = leadSchema.pick(mask).safeParse(answers);
+  if (result.success) return {};
+
+  const errors: Partial<Record<LeadField, string>> = {};
+  for (const issue of result.error.issues) {
+    const field = issue.path[0] as LeadField;
+    errors[field] ??= issue.message;
+  }
+  return errors;
+}
+
+export type LeadTier = 'hot' | 'warm' | 'cold';
+
+export interface LeadScore {
+  // 0-100
+  score: number;
+  tier: LeadTier;
+}
+
+const pointsFor = (options: readonly LeadOption[], value: string) =>
+  options.find((option) => option.value === value)?.points ?? 0;
+
+/**
+ * Budget and timeline carry most of the weight; breadth of goals and services adds up to 30 more
+ */
+export function scoreLead(answers: Pick<LeadAnswers, 'goals' | 'budget' | 'timeline' | 'services'>): LeadScore {
+  const goals = Math.min(15, answers.goals.reduce((sum, goal) => sum + pointsFor(GOAL_OPTIONS, goal), 0));
+  const services = Math.min(15, answers.services.length * 5);
+  const score = pointsFor(BUDGET_OPTIONS, answers.budget) + pointsFor(TIMELINE_OPTIONS, answers.timeline) + goals + services;
+
+  return { score, tier: score >= 70 ? 'hot' : score >= 40 ? 'warm' : 'cold' };
+}
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	EMPTY_ANSWERS,
+	LEAD_DRAFT_KEY,
+	LEAD_STEPS,
+	clearLeadDraft,
+	loadLeadDraft,
+	saveLeadDraft,
+	scoreLead,
+	validateLeadStep
+} from './index';
+
+const step = (id: string) => LEAD_STEPS.find((candidate) => candidate.id === id)!;
+
+describe('validateLeadStep', () => {
+	it('only checks the fields of the current step', () => {
+		expect(validateLeadStep(step('goals'), EMPTY_ANSWERS)).toEqual({ goals: 'Choose at least one goal' });
+		expect(validateLeadStep(step('goals'), { ...EMPTY_ANSWERS, goals: ['more-leads'] })).toEqual({});
+	});
+
+	it('reports each contact field once', () => {
+		expect(validateLeadStep(step('contact'), { ...EMPTY_ANSWERS, name: 'A', email: 'nope' })).toEqual({
+			name: 'Please tell us your name',
+			email: 'Please enter a valid email address'
+		});
+	});
+});
+
+describe('scoreLead', () => {
+	it('ranks a large, urgent project as hot and a browsing visitor as cold', () => {
+		expect(
+			scoreLead({ goals: ['more-leads', 'new-website', 'search-visibility'], budget: '50k-plus', timeline: 'asap', services: ['web-design', 'seo', 'digital-marketing'] })
+		).toEqual({ score: 100, tier: 'hot' });
+		expect(scoreLead({ goals: ['brand-awareness'], budget: 'under-5k', timeline: 'exploring', services: ['seo'] })).toEqual({
+			score: 20,
+			tier: 'cold'
+		});
+	});
+
+	it('caps goals and services so breadth cannot outweigh budget', () => {
+		const { score, tier } = scoreLead({
+			goals: ['more-leads', 'new-website', 'search-visibility', 'brand-awareness', 'social-growth'],
+			budget: 'unsure',
+			timeline: '3-6-months',
+			services: ['web-design', 'social-media', 'brand-strategy', 'seo', 'digital-marketing']
+		});
+
+		expect(score).toBe(55);
+		expect(tier).toBe('warm');
+	});
+});
+
+describe('lead draft', () => {
+	let storage: Map<string, string>;
+
+	beforeEach(() => {
+		storage = new Map();
+		vi.stubGlobal('sessionStorage', {
+			getItem: (key: string) => storage.get(key) ?? null,
+			setItem: (key: string, value: string) => storage.set(key, value),
+			removeItem: (key: string) => storage.delete(key)
+		});
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('round-trips through sessionStorage and clears', () => {
+		const draft = { step: 2, answers: { ...EMPTY_ANSWERS, goals: ['more-leads'], budget: '5k-15k' } };
+
+		saveLeadDraft(draft);
+		expect(JSON.parse(storage.get(LEAD_DRAFT_KEY)!)).toEqual(draft);
+		expect(loadLeadDraft()).toEqual(draft);
+
+		clearLeadDraft();
+		expect(loadLeadDraft()).toBeNull();
+	});
+
+	it('ignores unreadable drafts', () => {
+		storage.set(LEAD_DRAFT_KEY, '{not json');
+		expect(loadLeadDraft()).toBeNull();
+	});
+});
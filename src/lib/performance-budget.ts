@@ -0,0 +1,28 @@
+/**
+ * Performance budget shared by the runtime checks in performance.ts and the build-time
+ * check over the prerendered pages, so it must not import anything through $lib
+ */
+
+export interface PerformanceBudget {
+  lcp: number; // ms
+  fid: number; // ms
+  cls: number; // score
+  fcp: number; // ms
+  ttfb: number; // ms
+  bundleSize: number; // bytes of gzipped JS and CSS, checked at build time
+  imageCount: number;
+  imageBytes: number; // bytes, checked at build time
+  scriptCount: number;
+}
+
+export const DEFAULT_BUDGET: PerformanceBudget = {
+  lcp: 2500,
+  fid: 100,
+  cls: 0.1,
+  fcp: 1800,
+  ttfb: 800,
+  bundleSize: 200000, // 200kb
+  imageCount: 20,
+  imageBytes: 1000000, // 1mb
+  scriptCount: 10
+};
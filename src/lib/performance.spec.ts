@@ -0,0 +1,324 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	initWebVitalsMonitoring,
+	trackImageOptimization,
+	type WebVitalsReport,
+	type WebVitalsReportContext
+} from './performance';
+
+/**
+ * Stand-in for PerformanceObserver that lets tests replay entry sequences
+ */
+class FakePerformanceObserver {
+	static supportedEntryTypes = ['paint', 'largest-contentful-paint', 'first-input', 'event', 'layout-shift'];
+	static instances: FakePerformanceObserver[] = [];
+
+	type?: string;
+	disconnected = false;
+	queued: PerformanceEntry[] = [];
+
+	constructor(private callback: (list: { getEntries: () => PerformanceEntry[] }) => void) {
+		FakePerformanceObserver.instances.push(this);
+	}
+
+	observe(options: { type: string }) {
+		this.type = options.type;
+	}
+
+	disconnect() {
+		this.disconnected = true;
+	}
+
+	takeRecords() {
+		const records = this.queued;
+		this.queued = [];
+		return records;
+	}
+
+	deliver(entries: PerformanceEntry[]) {
+		this.callback({ getEntries: () => entries });
+	}
+}
+
+function replay(type: string, entries: Partial<PerformanceEntry & Record<string, unknown>>[]) {
+	for (const observer of FakePerformanceObserver.instances) {
+		if (observer.type === type && !observer.disconnected) {
+			observer.deliver(entries as PerformanceEntry[]);
+		}
+	}
+}
+
+const shift = (startTime: number, value: number, hadRecentInput = false) => ({
+	entryType: 'layout-shift',
+	startTime,
+	value,
+	hadRecentInput
+});
+
+// Just enough of an Element for getSelector
+const element = (localName: string, options: { id?: string; classes?: string[]; parent?: unknown } = {}) => ({
+	nodeType: 1,
+	localName,
+	id: options.id ?? '',
+	classList: options.classes ?? [],
+	parentNode: options.parent ?? null
+});
+
+const event = (interactionId: number, duration: number, startTime = 0) => ({
+	entryType: 'event',
+	name: 'pointerup',
+	startTime,
+	duration,
+	processingStart: startTime + 5,
+	processingEnd: startTime + 10,
+	interactionId
+});
+
+describe('initWebVitalsMonitoring', () => {
+	let reports: { report: WebVitalsReport; context: WebVitalsReportContext }[];
+	let doc: EventTarget & { visibilityState: DocumentVisibilityState };
+	let win: EventTarget;
+
+	const onReport = (report: WebVitalsReport, context: WebVitalsReportContext) => {
+		reports.push({ report, context });
+	};
+
+	const lastReport = () => reports[reports.length - 1]?.report;
+
+	const hide = () => {
+		doc.visibilityState = 'hidden';
+		doc.dispatchEvent(new Event('visibilitychange'));
+	};
+
+	beforeEach(() => {
+		reports = [];
+		FakePerformanceObserver.instances = [];
+		doc = Object.assign(new EventTarget(), { visibilityState: 'visible' as DocumentVisibilityState });
+		win = new EventTarget();
+
+		vi.stubGlobal('PerformanceObserver', FakePerformanceObserver);
+		vi.stubGlobal('document', doc);
+		vi.stubGlobal('window', win);
+		vi.stubGlobal('addEventListener', win.addEventListener.bind(win));
+		vi.stubGlobal('removeEventListener', win.removeEventListener.bind(win));
+		vi.stubGlobal('location', { href: 'https://taitmedia.com/' });
+		vi.stubGlobal('performance', { now: () => 10000, getEntriesByType: () => [] });
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('does nothing during SSR', () => {
+		vi.stubGlobal('window', undefined);
+
+		const monitor = initWebVitalsMonitoring(onReport);
+
+		expect(FakePerformanceObserver.instances).toHaveLength(0);
+		expect(() => monitor.reset()).not.toThrow();
+	});
+
+	it('reports INP as the worst interaction grouped by interactionId', () => {
+		initWebVitalsMonitoring(onReport);
+
+		replay('event', [event(1, 80), event(1, 120), event(2, 300), event(0, 900), event(3, 60)]);
+		hide();
+
+		expect(lastReport()?.inp?.value).toBe(300);
+		expect(lastReport()?.inp?.rating).toBe('needs-improvement');
+	});
+
+	it('skips one outlier per 50 interactions for INP', () => {
+		initWebVitalsMonitoring(onReport);
+
+		const entries = Array.from({ length: 60 }, (_, i) => event(i + 1, 50));
+		entries[10] = event(11, 1000);
+		entries[20] = event(21, 400);
+		replay('event', entries);
+		hide();
+
+		expect(lastReport()?.inp?.value).toBe(400);
+	});
+
+	it('reports CLS as the largest session window', () => {
+		initWebVitalsMonitoring(onReport);
+
+		replay('layout-shift', [
+			shift(0, 0.05),
+			shift(500, 0.05),
+			// 2s gap starts a new window
+			shift(2500, 0.08),
+			shift(2600, 0.04),
+			// shifts caused by input are ignored
+			shift(2700, 0.5, true)
+		]);
+		hide();
+
+		expect(lastReport()?.cls?.value).toBeCloseTo(0.12);
+	});
+
+	it('caps CLS session windows at 5 seconds', () => {
+		initWebVitalsMonitoring(onReport);
+
+		// Shifts 900ms apart never hit the gap limit, only the 5s cap
+		replay('layout-shift', Array.from({ length: 8 }, (_, i) => shift(i * 900, 0.02)));
+		hide();
+
+		expect(lastReport()?.cls?.value).toBeCloseTo(0.12);
+	});
+
+	it('finalizes LCP on the first input', () => {
+		initWebVitalsMonitoring(onReport);
+
+		replay('largest-contentful-paint', [{ entryType: 'largest-contentful-paint', startTime: 1200 }]);
+		win.dispatchEvent(new Event('keydown'));
+		replay('largest-contentful-paint', [{ entryType: 'largest-contentful-paint', startTime: 5000 }]);
+		hide();
+
+		expect(reports.some(({ report }) => report.lcp?.value === 1200)).toBe(true);
+		expect(lastReport()?.lcp?.value).toBe(1200);
+	});
+
+	it('marks reports sent only because of reportAllChanges as interim', () => {
+		initWebVitalsMonitoring(onReport, { reportAllChanges: true });
+
+		replay('layout-shift', [shift(100, 0.05)]);
+		replay('layout-shift', [shift(200, 0.05)]);
+		expect(reports.map(({ context }) => context.interim)).toEqual([true, true]);
+
+		hide();
+		expect(reports[reports.length - 1].context.interim).toBe(false);
+		expect(lastReport()?.cls?.value).toBe(0.1);
+	});
+
+	it('starts a fresh report for each client-side navigation', () => {
+		const monitor = initWebVitalsMonitoring(onReport);
+
+		replay('paint', [{ entryType: 'paint', name: 'first-contentful-paint', startTime: 800 }]);
+		replay('layout-shift', [shift(100, 0.2)]);
+
+		vi.stubGlobal('location', { href: 'https://taitmedia.com/work' });
+		monitor.reset();
+
+		expect(lastReport()?.cls?.value).toBe(0.2);
+		expect(reports[reports.length - 1].context.url).toBe('https://taitmedia.com/');
+
+		replay('layout-shift', [shift(8000, 0.01)]);
+		replay('event', [event(7, 90, 8100)]);
+		hide();
+
+		const { report, context } = reports[reports.length - 1];
+		expect(context.url).toBe('https://taitmedia.com/work');
+		expect(report.cls?.value).toBe(0.01);
+		expect(report.inp?.value).toBe(90);
+		expect(report.fcp).toBeUndefined();
+	});
+
+	it('attributes a poor INP to its target and delay split', () => {
+		initWebVitalsMonitoring(onReport);
+
+		const button = element('button', { classes: ['lead-gen-cta'], parent: element('section', { id: 'lead-gen' }) });
+		replay('event', [{ ...event(4, 640, 1000), name: 'click', processingStart: 1100, processingEnd: 1500, target: button }]);
+		hide();
+
+		expect(lastReport()?.inp?.attribution).toEqual({
+			interactionTarget: 'section#lead-gen > button.lead-gen-cta',
+			eventType: 'click',
+			inputDelay: 100,
+			processingDuration: 400,
+			presentationDelay: 140
+		});
+	});
+
+	it('attributes a poor CLS to the largest shift in the worst window', () => {
+		initWebVitalsMonitoring(onReport);
+
+		const hero = element('section', { classes: ['relative', 'h-screen'], parent: element('main', { id: 'main-content' }) });
+		replay('layout-shift', [
+			{ ...shift(0, 0.05), sources: [{ node: element('img') }] },
+			{ ...shift(300, 0.25), sources: [{ node: hero }, { node: null }] }
+		]);
+		hide();
+
+		expect(lastReport()?.cls?.attribution).toEqual({
+			largestShiftTime: 300,
+			largestShiftValue: 0.25,
+			largestShiftSources: ['main#main-content > section.relative.h-screen']
+		});
+	});
+
+	it('breaks a poor LCP down into load phases', () => {
+		const url = 'https://taitmedia.com/racing.jpg';
+		vi.stubGlobal('performance', {
+			now: () => 10000,
+			getEntriesByType: (type: string) =>
+				type === 'navigation'
+					? [{ responseStart: 600 }]
+					: [{ name: url, startTime: 900, requestStart: 1000, responseEnd: 3800 }]
+		});
+		initWebVitalsMonitoring(onReport);
+
+		replay('largest-contentful-paint', [
+			{ entryType: 'largest-contentful-paint', startTime: 4500, url, element: element('img', { id: 'hero-image' }) }
+		]);
+		hide();
+
+		expect(lastReport()?.lcp?.attribution).toEqual({
+			element: 'img#hero-image',
+			url,
+			timeToFirstByte: 600,
+			resourceLoadDelay: 400,
+			resourceLoadDuration: 2800,
+			elementRenderDelay: 700
+		});
+	});
+
+	it('leaves good metrics without attribution', () => {
+		initWebVitalsMonitoring(onReport);
+
+		replay('event', [{ ...event(5, 48), target: element('a') }]);
+		hide();
+
+		expect(lastReport()?.inp?.attribution).toBeUndefined();
+	});
+});
+
+describe('trackImageOptimization', () => {
+	const picture = (overrides: Record<string, string> = {}) => ({
+		alt: 'Race car at speed on track',
+		loading: 'lazy',
+		fetchPriority: 'auto',
+		srcset: '/_app/immutable/assets/racing-640.abc.webp 640w',
+		src: '/_app/immutable/assets/racing-1920.abc.webp',
+		...overrides
+	});
+
+	const track = (images: ReturnType<typeof picture>[]) => {
+		vi.stubGlobal('document', { querySelectorAll: () => images });
+		return trackImageOptimization();
+	};
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('reports no issues for <Picture> output, including an eager LCP image', () => {
+		const result = track([picture(), picture({ loading: 'eager', fetchPriority: 'high' })]);
+
+		expect(result.issues).toEqual([]);
+		expect(result.score).toBe(100);
+	});
+
+	it('flags raw images', () => {
+		const raw = picture({ alt: '', loading: 'eager', srcset: '', src: '/racing.jpg' });
+		const result = track([picture(), raw]);
+
+		expect(result.issues).toEqual([
+			'Image 2: Missing alt text',
+			'Image 2: Not using lazy loading',
+			'Image 2: No responsive srcset',
+			'Image 2: Not using modern format (WebP/AVIF)'
+		]);
+		expect(result.flagged).toEqual([{ image: raw, issues: result.issues.map((issue) => issue.slice('Image 2: '.length)) }]);
+	});
+});
@@ -3,14 +3,49 @@
  * Tracks Core Web Vitals and provides optimization insights
  */
 
+import { getBeaconTransport, type AnalyticsTransport } from '$lib/analytics/transport';
+import { hasConsent } from '$lib/consent';
+import { DEFAULT_BUDGET, type PerformanceBudget } from './performance-budget';
+
+export { DEFAULT_BUDGET, type PerformanceBudget };
+
 // Types for performance metrics
 export interface PerformanceMetric {
   name: string;
   value: number;
   rating: 'good' | 'needs-improvement' | 'poor';
   timestamp: number;
+  attribution?: MetricAttribution; // Only attached when the rating is not "good"
+}
+
+// What made the LCP slow, split the same way as Chrome's LCP breakdown
+export interface LCPAttribution {
+  element?: string; // CSS selector of the LCP element
+  url?: string; // Image or video resource behind it, if any
+  timeToFirstByte: number;
+  resourceLoadDelay: number;
+  resourceLoadDuration: number;
+  elementRenderDelay: number;
+}
+
+// The single largest shift in the worst session window
+export interface CLSAttribution {
+  largestShiftTime?: number;
+  largestShiftValue?: number;
+  largestShiftSources: string[]; // CSS selectors of the nodes that moved
 }
 
+// The slowest interaction and where its time went
+export interface INPAttribution {
+  interactionTarget?: string; // CSS selector of the element interacted with
+  eventType: string;
+  inputDelay: number;
+  processingDuration: number;
+  presentationDelay: number;
+}
+
+export type MetricAttribution = LCPAttribution | CLSAttribution | INPAttribution;
+
 export interface WebVitalsReport {
   fcp?: PerformanceMetric; // First Contentful Paint
   lcp?: PerformanceMetric; // Largest Contentful Paint
@@ -21,7 +56,7 @@ export interface WebVitalsReport {
 }
 
 // Core Web Vitals thresholds
-const THRESHOLDS = {
+export const THRESHOLDS = {
   fcp: { good: 1800, poor: 3000 },
   lcp: { good: 2500, poor: 4000 },
   fid: { good: 100, poor: 300 },
@@ -33,7 +68,7 @@ const THRESHOLDS = {
 /**
  * Rate a metric value based on thresholds
  */
-function rateMetric(name: keyof typeof THRESHOLDS, value: number): 'good' | 'needs-improvement' | 'poor' {
+export function rateMetric(name: keyof typeof THRESHOLDS, value: number): 'good' | 'needs-improvement' | 'poor' {
   const threshold = THRESHOLDS[name];
   if (value <= threshold.good) return 'good';
   if (value <= threshold.poor) return 'needs-improvement';
@@ -43,213 +78,501 @@ function rateMetric(name: keyof typeof THRESHOLDS, value: number): 'good' | 'nee
 /**
  * Create a performance metric object
  */
-function createMetric(name: string, value: number): PerformanceMetric {
-  return {
+export function createMetric(
+  name: string,
+  value: number,
+  getAttribution?: () => MetricAttribution | undefined
+): PerformanceMetric {
+  const rating = rateMetric(name as keyof typeof THRESHOLDS, value);
+  const metric: PerformanceMetric = {
     name,
     value,
-    rating: rateMetric(name as keyof typeof THRESHOLDS, value),
+    rating,
     timestamp: Date.now()
   };
+
+  // Attribution walks the DOM, so only pay for it when there is something to fix
+  if (rating !== 'good') {
+    const attribution = getAttribution?.();
+    if (attribution) {
+      metric.attribution = attribution;
+    }
+  }
+
+  return metric;
+}
+
+/**
+ * Build a short CSS selector for a node, for attribution reports
+ */
+export function getSelector(node: Node | null | undefined, maxDepth: number = 5): string | undefined {
+  const parts: string[] = [];
+  let current: Node | null | undefined = node;
+
+  while (current && current.nodeType === 1 && parts.length < maxDepth) {
+    const element = current as Element;
+    const tag = element.localName;
+    if (tag === 'html' || tag === 'body') {
+      parts.unshift(tag);
+      break;
+    }
+
+    if (element.id) {
+      parts.unshift(`${tag}#${element.id}`);
+      break;
+    }
+
+    const classes = Array.from(element.classList ?? []).slice(0, 2);
+    parts.unshift(classes.length > 0 ? `${tag}.${classes.join('.')}` : tag);
+    current = element.parentNode;
+  }
+
+  return parts.length > 0 ? parts.join(' > ') : undefined;
+}
+
+// Entry shapes the DOM typings do not cover yet
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+  sources?: { node: Node | null }[];
+}
+
+interface EventTimingEntry extends PerformanceEntry {
+  processingStart: number;
+  processingEnd: number;
+  interactionId?: number;
+  target?: Node | null;
+}
+
+interface LargestContentfulPaintEntry extends PerformanceEntry {
+  element?: Element | null;
+  url?: string;
+}
+
+export interface WebVitalsReportContext {
+  url: string; // Page the report was measured on
+  interim: boolean; // Sent only because of reportAllChanges; the values may still change
+}
+
+export interface WebVitalsMonitor {
+  disconnect: () => void;
+  reset: () => void;
+}
+
+/**
+ * Observe a performance entry type, skipping types the browser does not support
+ */
+function observeEntries<T extends PerformanceEntry>(
+  type: string,
+  callback: (entries: T[]) => void,
+  options: { durationThreshold?: number } = {}
+): PerformanceObserver | undefined {
+  if (!PerformanceObserver.supportedEntryTypes?.includes(type)) {
+    return undefined;
+  }
+
+  try {
+    const observer = new PerformanceObserver((list) => callback(list.getEntries() as T[]));
+    observer.observe({ type, buffered: true, ...options } as PerformanceObserverInit);
+    return observer;
+  } catch (e) {
+    console.warn(`${type} observation not supported`);
+    return undefined;
+  }
+}
+
+// CLS session windows close after a 1s gap between shifts or once they span 5s
+const CLS_SESSION_GAP = 1000;
+const CLS_SESSION_MAX = 5000;
+
+/**
+ * Track Cumulative Layout Shift as the largest session window of shifts
+ */
+function createClsTracker() {
+  let sessionValue = 0;
+  let sessionEntries: LayoutShiftEntry[] = [];
+  let worstSessionEntries: LayoutShiftEntry[] = [];
+  let value: number | undefined;
+
+  return {
+    get value() {
+      return value;
+    },
+    attribution(): CLSAttribution {
+      const largest = worstSessionEntries.reduce<LayoutShiftEntry | undefined>(
+        (max, entry) => (!max || entry.value > max.value ? entry : max),
+        undefined
+      );
+
+      return {
+        largestShiftTime: largest?.startTime,
+        largestShiftValue: largest?.value,
+        largestShiftSources: (largest?.sources ?? [])
+          .map(source => getSelector(source.node))
+          .filter((selector): selector is string => Boolean(selector))
+      };
+    },
+    add(entry: LayoutShiftEntry): boolean {
+      // Shifts right after user input are expected
+      if (entry.hadRecentInput) return false;
+
+      const first = sessionEntries[0];
+      const last = sessionEntries[sessionEntries.length - 1];
+
+      if (
+        first &&
+        last &&
+        entry.startTime - last.startTime < CLS_SESSION_GAP &&
+        entry.startTime - first.startTime < CLS_SESSION_MAX
+      ) {
+        sessionValue += entry.value;
+        sessionEntries.push(entry);
+      } else {
+        sessionValue = entry.value;
+        sessionEntries = [entry];
+      }
+
+      if (value === undefined || sessionValue > value) {
+        value = sessionValue;
+        worstSessionEntries = [...sessionEntries];
+        return true;
+      }
+      return false;
+    },
+    reset() {
+      sessionValue = 0;
+      sessionEntries = [];
+      worstSessionEntries = [];
+      value = undefined;
+    }
+  };
+}
+
+// Only the longest few interactions can ever be the reported INP
+const MAX_INTERACTIONS_KEPT = 10;
+
+/**
+ * Track Interaction to Next Paint. Event entries are grouped by interactionId, each
+ * interaction is as long as its slowest event, and INP is the worst interaction
+ * ignoring one outlier per 50 interactions.
+ */
+function createInpTracker() {
+  let longest: { id: number; latency: number; entry: EventTimingEntry; target?: string }[] = [];
+  const interactionIds = new Set<number>();
+
+  const candidate = () => {
+    if (longest.length === 0) return undefined;
+    return longest[Math.min(longest.length - 1, Math.floor(interactionIds.size / 50))];
+  };
+
+  return {
+    get value(): number | undefined {
+      return candidate()?.latency;
+    },
+    attribution(): INPAttribution | undefined {
+      const interaction = candidate();
+      if (!interaction) return undefined;
+
+      const { entry } = interaction;
+      return {
+        interactionTarget: interaction.target,
+        eventType: entry.name,
+        inputDelay: Math.max(0, entry.processingStart - entry.startTime),
+        processingDuration: Math.max(0, entry.processingEnd - entry.processingStart),
+        presentationDelay: Math.max(0, entry.startTime + entry.duration - entry.processingEnd)
+      };
+    },
+    add(entry: EventTimingEntry): boolean {
+      // Hovers, scrolls and other non-interactions have no interactionId
+      if (!entry.interactionId) return false;
+
+      const before = this.value;
+      interactionIds.add(entry.interactionId);
+
+      // Resolve the target now - the node may be gone by the time we report
+      const existing = longest.find((interaction) => interaction.id === entry.interactionId);
+      if (existing) {
+        if (entry.duration > existing.latency) {
+          existing.latency = entry.duration;
+          existing.entry = entry;
+          existing.target = getSelector(entry.target) ?? existing.target;
+        }
+      } else {
+        longest.push({
+          id: entry.interactionId,
+          latency: entry.duration,
+          entry,
+          target: getSelector(entry.target)
+        });
+      }
+
+      longest.sort((a, b) => b.latency - a.latency);
+      longest = longest.slice(0, MAX_INTERACTIONS_KEPT);
+
+      return this.value !== before;
+    },
+    reset() {
+      longest = [];
+      interactionIds.clear();
+    }
+  };
+}
+
+/**
+ * Break an LCP down into TTFB, resource load delay, resource load time and render delay
+ */
+function getLcpAttribution(entry: LargestContentfulPaintEntry): LCPAttribution {
+  const navEntry = performance.getEntriesByType?.('navigation')[0] as
+    | (PerformanceNavigationTiming & { activationStart?: number })
+    | undefined;
+  const activationStart = navEntry?.activationStart ?? 0;
+  const timeToFirstByte = navEntry ? Math.max(0, navEntry.responseStart - activationStart) : 0;
+
+  const resource = entry.url
+    ? (performance.getEntriesByType?.('resource') as PerformanceResourceTiming[] | undefined)
+        ?.find(resourceEntry => resourceEntry.name === entry.url)
+    : undefined;
+
+  const requestStart = resource
+    ? Math.max(timeToFirstByte, (resource.requestStart || resource.startTime) - activationStart)
+    : timeToFirstByte;
+  const responseEnd = resource
+    ? Math.max(requestStart, resource.responseEnd - activationStart)
+    : requestStart;
+  const renderTime = Math.max(responseEnd, entry.startTime - activationStart);
+
+  return {
+    element: getSelector(entry.element),
+    url: entry.url || undefined,
+    timeToFirstByte,
+    resourceLoadDelay: requestStart - timeToFirstByte,
+    resourceLoadDuration: responseEnd - requestStart,
+    elementRenderDelay: renderTime - responseEnd
+  };
 }
 
 /**
  * Initialize Core Web Vitals monitoring
+ *
+ * FCP, LCP and TTFB describe the initial page load. CLS and INP are measured per
+ * route: call `reset()` after a client-side navigation to report the route being
+ * left and start a fresh report for the next one.
  */
 export function initWebVitalsMonitoring(
-  onReport: (report: WebVitalsReport) => void,
+  onReport: (report: WebVitalsReport, context: WebVitalsReportContext) => void,
   options: {
     reportAllChanges?: boolean;
     analyticsId?: string;
   } = {}
-) {
-  const report: WebVitalsReport = {};
+): WebVitalsMonitor {
+  // Nothing to measure during SSR or in browsers without the Performance Timeline
+  if (typeof window === 'undefined' || typeof PerformanceObserver === 'undefined') {
+    return { disconnect: () => {}, reset: () => {} };
+  }
+
   const { reportAllChanges = false } = options;
+  let report: WebVitalsReport = {};
+  let url = location.href;
+
+  const emit = (interim = false) => {
+    if (Object.keys(report).length > 0) {
+      onReport({ ...report }, { url, interim });
+    }
+  };
+
+  // Paint entries from a page loaded in the background do not reflect what users saw
+  let firstHiddenTime = document.visibilityState === 'hidden' ? 0 : Infinity;
 
   // First Contentful Paint
-  const fcpObserver = new PerformanceObserver((list) => {
-    const entries = list.getEntries();
+  const fcpObserver = observeEntries<PerformanceEntry>('paint', (entries) => {
     const fcpEntry = entries.find(entry => entry.name === 'first-contentful-paint');
-    if (fcpEntry) {
+    if (fcpEntry && fcpEntry.startTime < firstHiddenTime) {
       report.fcp = createMetric('fcp', fcpEntry.startTime);
-      onReport(report);
+      fcpObserver?.disconnect();
+      emit();
     }
   });
 
-  if (typeof PerformanceObserver !== 'undefined' && 'observe' in fcpObserver) {
-    try {
-      fcpObserver.observe({ type: 'paint', buffered: true });
-    } catch (e) {
-      console.warn('FCP observation not supported');
-    }
-  }
-
-  // Largest Contentful Paint
-  const lcpObserver = new PerformanceObserver((list) => {
-    const entries = list.getEntries();
+  // Largest Contentful Paint - candidates stop once the user interacts or leaves
+  let lcpFinalized = false;
+  const handleLcpEntries = (entries: LargestContentfulPaintEntry[]) => {
     const lastEntry = entries[entries.length - 1];
-    if (lastEntry) {
-      report.lcp = createMetric('lcp', lastEntry.startTime);
-      if (reportAllChanges || !document.hidden) {
-        onReport(report);
+    if (lastEntry && !lcpFinalized && lastEntry.startTime < firstHiddenTime) {
+      report.lcp = createMetric('lcp', lastEntry.startTime, () => getLcpAttribution(lastEntry));
+      if (reportAllChanges) {
+        emit(true);
       }
     }
-  });
+  };
+  const lcpObserver = observeEntries<LargestContentfulPaintEntry>('largest-contentful-paint', handleLcpEntries);
 
-  try {
-    lcpObserver.observe({ type: 'largest-contentful-paint', buffered: true });
-  } catch (e) {
-    console.warn('LCP observation not supported');
-  }
+  const finalizeLcp = () => {
+    if (lcpFinalized) return;
+    if (lcpObserver) {
+      handleLcpEntries(lcpObserver.takeRecords() as LargestContentfulPaintEntry[]);
+      lcpObserver.disconnect();
+    }
+    lcpFinalized = true;
+    removeEventListener('keydown', finalizeLcp, true);
+    removeEventListener('click', finalizeLcp, true);
+    if (report.lcp) {
+      emit();
+    }
+  };
+  addEventListener('keydown', finalizeLcp, { capture: true, once: true });
+  addEventListener('click', finalizeLcp, { capture: true, once: true });
 
-  // First Input Delay / Interaction to Next Paint
-  const inputObserver = new PerformanceObserver((list) => {
-    const entries = list.getEntries();
+  // First Input Delay and Interaction to Next Paint
+  const inp = createInpTracker();
+  const handleEventEntries = (entries: EventTimingEntry[]) => {
+    let changed = false;
     for (const entry of entries) {
-      if (entry.processingStart && entry.startTime) {
-        const delay = entry.processingStart - entry.startTime;
-        // Check if it's INP (newer metric) or FID (legacy)
-        const metricName = 'duration' in entry ? 'inp' : 'fid';
-        const value = 'duration' in entry ? entry.duration : delay;
-        
-        report[metricName] = createMetric(metricName, value);
-        onReport(report);
+      changed = inp.add(entry) || changed;
+    }
+    if (changed && inp.value !== undefined) {
+      report.inp = createMetric('inp', inp.value, () => inp.attribution());
+      if (reportAllChanges) {
+        emit(true);
       }
     }
-  });
+  };
 
-  try {
-    // Try INP first (newer browsers)
-    inputObserver.observe({ type: 'event', buffered: true });
-  } catch (e) {
-    try {
-      // Fallback to FID
-      inputObserver.observe({ type: 'first-input', buffered: true });
-    } catch (e) {
-      console.warn('Input delay observation not supported');
+  const firstInputObserver = observeEntries<EventTimingEntry>('first-input', (entries) => {
+    const entry = entries[0];
+    if (!entry) return;
+    if (!report.fid) {
+      report.fid = createMetric('fid', entry.processingStart - entry.startTime);
+      emit();
     }
-  }
+    // The first input counts towards INP even when shorter than the event threshold
+    handleEventEntries(entries);
+  });
+
+  const eventObserver = observeEntries<EventTimingEntry>('event', handleEventEntries, {
+    durationThreshold: 40
+  });
 
   // Cumulative Layout Shift
-  let clsValue = 0;
-  let clsEntries: PerformanceEntry[] = [];
-  const clsObserver = new PerformanceObserver((list) => {
-    for (const entry of list.getEntries()) {
-      if (!entry.hadRecentInput) {
-        clsValue += entry.value;
-        clsEntries.push(entry);
-      }
+  const cls = createClsTracker();
+  const handleLayoutShifts = (entries: LayoutShiftEntry[]) => {
+    let changed = false;
+    for (const entry of entries) {
+      changed = cls.add(entry) || changed;
     }
-    report.cls = createMetric('cls', clsValue);
-    if (reportAllChanges) {
-      onReport(report);
+    if (changed && cls.value !== undefined) {
+      report.cls = createMetric('cls', cls.value, () => cls.attribution());
+      if (reportAllChanges) {
+        emit(true);
+      }
     }
-  });
-
-  try {
-    clsObserver.observe({ type: 'layout-shift', buffered: true });
-  } catch (e) {
-    console.warn('CLS observation not supported');
-  }
+  };
+  const clsObserver = observeEntries<LayoutShiftEntry>('layout-shift', handleLayoutShifts);
 
-  // Time to First Byte
-  const navigationEntries = performance.getEntriesByType('navigation');
+  // Time to First Byte, relative to activation for prerendered pages
+  const navigationEntries = typeof performance.getEntriesByType === 'function'
+    ? performance.getEntriesByType('navigation')
+    : [];
   if (navigationEntries.length > 0) {
-    const navEntry = navigationEntries[0] as PerformanceNavigationTiming;
-    const ttfb = navEntry.responseStart - navEntry.requestStart;
+    const navEntry = navigationEntries[0] as PerformanceNavigationTiming & { activationStart?: number };
+    const ttfb = Math.max(0, navEntry.responseStart - (navEntry.activationStart ?? 0));
     report.ttfb = createMetric('ttfb', ttfb);
-    onReport(report);
+    emit();
   }
 
-  // Send final report on page visibility change
-  const sendFinalReport = () => {
-    if (report.cls) {
-      onReport(report);
+  // Pull in queued entries and send what we have for this page
+  const flush = () => {
+    finalizeLcp();
+    if (eventObserver) handleEventEntries(eventObserver.takeRecords() as EventTimingEntry[]);
+    if (clsObserver) handleLayoutShifts(clsObserver.takeRecords() as LayoutShiftEntry[]);
+    emit();
+  };
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      firstHiddenTime = Math.min(firstHiddenTime, performance.now());
+      flush();
     }
   };
 
-  document.addEventListener('visibilitychange', sendFinalReport);
-  window.addEventListener('beforeunload', sendFinalReport);
+  document.addEventListener('visibilitychange', onVisibilityChange);
+  addEventListener('pagehide', flush);
 
   return {
     disconnect: () => {
-      fcpObserver.disconnect();
-      lcpObserver.disconnect();
-      inputObserver.disconnect();
-      clsObserver.disconnect();
-      document.removeEventListener('visibilitychange', sendFinalReport);
-      window.removeEventListener('beforeunload', sendFinalReport);
+      fcpObserver?.disconnect();
+      lcpObserver?.disconnect();
+      firstInputObserver?.disconnect();
+      eventObserver?.disconnect();
+      clsObserver?.disconnect();
+      removeEventListener('keydown', finalizeLcp, true);
+      removeEventListener('click', finalizeLcp, true);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      removeEventListener('pagehide', flush);
+    },
+    reset: () => {
+      flush();
+      report = {};
+      cls.reset();
+      inp.reset();
+      url = location.href;
     }
   };
 }
 
+/**
+ * The element most worth looking at for a metric's attribution
+ */
+export function getAttributionTarget(attribution?: MetricAttribution): string | undefined {
+  if (!attribution) return undefined;
+  if ('resourceLoadDelay' in attribution) return attribution.element ?? attribution.url;
+  if ('largestShiftSources' in attribution) return attribution.largestShiftSources[0];
+  return attribution.interactionTarget;
+}
+
 /**
  * Send Web Vitals data to analytics
  */
-export function sendToAnalytics(report: WebVitalsReport, analyticsId?: string) {
+export function sendToAnalytics(
+  report: WebVitalsReport,
+  analyticsId?: string,
+  pageUrl?: string,
+  transport?: AnalyticsTransport
+) {
+  // Nothing leaves the browser - not even the user agent - without analytics consent
+  if (!hasConsent('analytics')) {
+    return;
+  }
+
   if (typeof gtag !== 'undefined' && analyticsId) {
     Object.entries(report).forEach(([key, metric]) => {
       if (metric) {
-        gtag('event', key, {
+        gtag?.('event', key, {
           event_category: 'Web Vitals',
           event_label: metric.rating,
           value: Math.round(metric.value),
           custom_parameter_1: analyticsId,
+          debug_target: getAttributionTarget(metric.attribution),
           non_interaction: true
         });
       }
     });
   }
 
-  // Also send to custom analytics endpoint if needed
-  if (typeof fetch !== 'undefined') {
-    fetch('/api/analytics/web-vitals', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        ...report,
-        url: location.href,
-        userAgent: navigator.userAgent,
-        timestamp: Date.now()
-      })
-    }).catch(() => {
-      // Silently fail - don't break user experience
-    });
-  }
+  // Batched and delivered to our own endpoint when the page is hidden
+  (transport ?? getBeaconTransport())?.enqueue(report, pageUrl ?? location.href);
 }
 
 /**
- * Performance budget checker
+ * Check Web Vitals against a budget without touching the DOM,
+ * so aggregated field data can be checked on the server too
  */
-export interface PerformanceBudget {
-  lcp: number; // ms
-  fid: number; // ms
-  cls: number; // score
-  fcp: number; // ms
-  ttfb: number; // ms
-  bundleSize: number; // bytes
-  imageCount: number;
-  scriptCount: number;
-}
-
-const DEFAULT_BUDGET: PerformanceBudget = {
-  lcp: 2500,
-  fid: 100,
-  cls: 0.1,
-  fcp: 1800,
-  ttfb: 800,
-  bundleSize: 200000, // 200kb
-  imageCount: 20,
-  scriptCount: 10
-};
-
-export function checkPerformanceBudget(
+export function checkVitalsBudget(
   report: WebVitalsReport,
   budget: Partial<PerformanceBudget> = {}
 ): { passed: boolean; violations: string[] } {
   const fullBudget = { ...DEFAULT_BUDGET, ...budget };
   const violations: string[] = [];
 
-  // Check Core Web Vitals
   if (report.lcp && report.lcp.value > fullBudget.lcp) {
     violations.push(`LCP exceeded budget: ${report.lcp.value}ms > ${fullBudget.lcp}ms`);
   }
@@ -270,6 +593,21 @@ export function checkPerformanceBudget(
     violations.push(`TTFB exceeded budget: ${report.ttfb.value}ms > ${fullBudget.ttfb}ms`);
   }
 
+  return {
+    passed: violations.length === 0,
+    violations
+  };
+}
+
+export function checkPerformanceBudget(
+  report: WebVitalsReport,
+  budget: Partial<PerformanceBudget> = {}
+): { passed: boolean; violations: string[] } {
+  const fullBudget = { ...DEFAULT_BUDGET, ...budget };
+
+  // Check Core Web Vitals
+  const { violations } = checkVitalsBudget(report, budget);
+
   // Check resource counts
   const images = document.querySelectorAll('img').length;
   if (images > fullBudget.imageCount) {
@@ -287,18 +625,19 @@ export function checkPerformanceBudget(
   };
 }
 
+// Totals for one resource type, e.g. script or image
+export interface ResourceMetric {
+  count: number;
+  totalSize: number; // bytes transferred
+  averageLoadTime: number; // ms
+  slowest: number; // ms
+}
+
 /**
  * Resource loading performance tracker
  */
 export function trackResourcePerformance() {
-  const resourceMetrics: {
-    [key: string]: {
-      count: number;
-      totalSize: number;
-      averageLoadTime: number;
-      slowest: number;
-    }
-  } = {};
+  const resourceMetrics: Record<string, ResourceMetric> = {};
 
   const observer = new PerformanceObserver((list) => {
     const entries = list.getEntries();
@@ -351,59 +690,87 @@ function getResourceType(url: string): string {
   return 'other';
 }
 
+export interface ImageOptimizationReport {
+  totalImages: number;
+  issues: string[];
+  // Each image with problems and what they are, so tools can point at the element
+  flagged: { image: HTMLImageElement; issues: string[] }[];
+  score: number;
+}
+
 /**
  * Image optimization tracker
  */
-export function trackImageOptimization() {
+export function trackImageOptimization(): ImageOptimizationReport {
   const images = document.querySelectorAll('img');
   const issues: string[] = [];
+  const flagged: ImageOptimizationReport['flagged'] = [];
 
   images.forEach((img, index) => {
+    const imageIssues: string[] = [];
+
     // Check for missing alt text
     if (!img.alt) {
-      issues.push(`Image ${index + 1}: Missing alt text`);
+      imageIssues.push('Missing alt text');
     }
 
-    // Check for lazy loading
-    if (!img.loading || img.loading !== 'lazy') {
-      issues.push(`Image ${index + 1}: Not using lazy loading`);
+    // Check for lazy loading, except on the LCP image which <Picture priority> fetches eagerly on purpose
+    if (img.loading !== 'lazy' && img.fetchPriority !== 'high') {
+      imageIssues.push('Not using lazy loading');
     }
 
     // Check for responsive images
     if (!img.srcset) {
-      issues.push(`Image ${index + 1}: No responsive srcset`);
+      imageIssues.push('No responsive srcset');
     }
 
     // Check for modern formats
     const src = img.src || img.currentSrc;
     if (src && !src.match(/\.(webp|avif)(\?|$)/)) {
-      issues.push(`Image ${index + 1}: Not using modern format (WebP/AVIF)`);
+      imageIssues.push('Not using modern format (WebP/AVIF)');
+    }
+
+    if (imageIssues.length > 0) {
+      issues.push(...imageIssues.map((issue) => `Image ${index + 1}: ${issue}`));
+      flagged.push({ image: img, issues: imageIssues });
     }
   });
 
   return {
     totalImages: images.length,
     issues,
+    flagged,
     score: Math.max(0, 100 - (issues.length * 10))
   };
 }
 
+export interface PerformanceData {
+  webVitals?: WebVitalsReport;
+  budgetCheck?: { passed: boolean; violations: string[] };
+  imageOptimization?: ImageOptimizationReport;
+}
+
 /**
  * Initialize complete performance monitoring
  */
 export function initPerformanceMonitoring(options: {
   analyticsId?: string;
   budget?: Partial<PerformanceBudget>;
-  onReport?: (data: any) => void;
+  transport?: AnalyticsTransport;
+  // Also call onReport on every metric update, for live tooling in development
+  reportAllChanges?: boolean;
+  onReport?: (data: PerformanceData) => void;
 } = {}) {
-  const performanceData: any = {};
+  const performanceData: PerformanceData = {};
 
   // Web Vitals monitoring
-  const vitalsMonitor = initWebVitalsMonitoring((report) => {
+  const vitalsMonitor = initWebVitalsMonitoring((report, context) => {
     performanceData.webVitals = report;
     
-    if (options.analyticsId) {
-      sendToAnalytics(report, options.analyticsId);
+    // Consent is checked per report, so opting in later still reports this page.
+    // Interim reports only feed onReport; analytics gets the values once they settle.
+    if (!context.interim && hasConsent('analytics')) {
+      sendToAnalytics(report, options.analyticsId, context.url, options.transport);
     }
 
     // Check performance budget
@@ -411,12 +778,12 @@ export function initPerformanceMonitoring(options: {
     performanceData.budgetCheck = budgetCheck;
 
     // Log budget violations in development
-    if (!budgetCheck.passed && process.env.NODE_ENV === 'development') {
+    if (!context.interim && !budgetCheck.passed && process.env.NODE_ENV === 'development') {
       console.warn('Performance Budget Violations:', budgetCheck.violations);
     }
 
     options.onReport?.(performanceData);
-  });
+  }, { reportAllChanges: options.reportAllChanges });
 
   // Resource performance monitoring
   const resourceMonitor = trackResourcePerformance();
@@ -433,6 +800,8 @@ export function initPerformanceMonitoring(options: {
 
   return {
     getPerformanceData: () => performanceData,
+    getResourceMetrics: () => resourceMonitor.getMetrics(),
+    reset: () => vitalsMonitor.reset(),
     disconnect: () => {
       vitalsMonitor.disconnect();
       resourceMonitor.disconnect();
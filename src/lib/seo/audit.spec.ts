@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { auditSeo, type SeoCheck, type SeoSnapshot } from './audit';
+
+const snapshot = (overrides: Partial<SeoSnapshot> = {}): SeoSnapshot => ({
+	pathname: '/services/seo',
+	title: 'Search Engine Optimization | Tait Media Solutions',
+	description: 'Technical fixes, content and local search work that grows qualified organic traffic month after month.',
+	canonical: 'https://taitmedia.com/services/seo',
+	headings: [
+		{ level: 1, text: 'Get found by the customers already searching for you' },
+		{ level: 2, text: 'What is included' },
+		{ level: 3, text: 'Technical audit' },
+		{ level: 2, text: 'Pricing' }
+	],
+	jsonLd: [
+		JSON.stringify({ '@context': 'https://schema.org', '@type': 'Service', name: 'SEO' }),
+		JSON.stringify({
+			'@context': 'https://schema.org',
+			'@graph': [{ '@type': 'Person', name: 'Ada' }, { '@type': ['WebPage', 'ItemPage'] }]
+		})
+	],
+	...overrides
+});
+
+const check = (checks: SeoCheck[], id: SeoCheck['id']) => {
+	const found = checks.find((item) => item.id === id)!;
+	return { status: found.status, message: found.message };
+};
+
+describe('auditSeo', () => {
+	it('passes a well-formed page', () => {
+		const checks = auditSeo(snapshot());
+
+		expect(checks.map((item) => item.status)).toEqual(['pass', 'pass', 'pass', 'pass', 'pass']);
+		expect(check(checks, 'json-ld').message).toBe('Service, Person, WebPage, ItemPage');
+	});
+
+	it('checks title and description lengths', () => {
+		const checks = auditSeo(snapshot({ title: 'Home', description: 'x'.repeat(161) }));
+
+		expect(check(checks, 'title')).toEqual({ status: 'warn', message: '4 characters, under 30 so it may be too vague' });
+		expect(check(checks, 'description')).toEqual({ status: 'warn', message: '161 characters, over 160 so it may be truncated' });
+		expect(check(auditSeo(snapshot({ description: ' ' })), 'description')).toEqual({ status: 'fail', message: 'No description' });
+	});
+
+	it('requires an absolute canonical for this page, ignoring the origin and trailing slash', () => {
+		expect(check(auditSeo(snapshot({ canonical: 'http://localhost:5173/services/seo/' })), 'canonical').status).toBe('pass');
+		expect(check(auditSeo(snapshot({ canonical: '/services/seo' })), 'canonical').status).toBe('fail');
+		expect(check(auditSeo(snapshot({ canonical: 'https://taitmedia.com/services' })), 'canonical')).toEqual({
+			status: 'warn',
+			message: 'Points at /services, not this page'
+		});
+		expect(check(auditSeo(snapshot({ canonical: undefined })), 'canonical').status).toBe('fail');
+	});
+
+	it('wants a single h1 and no skipped heading levels', () => {
+		const twoH1s = snapshot({ headings: [{ level: 1, text: 'Home' }, { level: 1, text: 'Our Work' }] });
+		const skipped = snapshot({ headings: [{ level: 1, text: 'Home' }, { level: 3, text: 'Details' }] });
+
+		expect(check(auditSeo(twoH1s), 'headings')).toEqual({ status: 'fail', message: '2 h1 elements, expected one' });
+		expect(check(auditSeo(skipped), 'headings')).toEqual({ status: 'warn', message: 'h1 "Home" is followed by h3 "Details"' });
+		expect(check(auditSeo(snapshot({ headings: [] })), 'headings').status).toBe('fail');
+	});
+
+	it('flags broken or untyped structured data', () => {
+		expect(check(auditSeo(snapshot({ jsonLd: ['{"@type":'] })), 'json-ld')).toEqual({ status: 'fail', message: 'Block 1 is not valid JSON' });
+		expect(check(auditSeo(snapshot({ jsonLd: ['{"name":"x"}'] })), 'json-ld').status).toBe('fail');
+		expect(check(auditSeo(snapshot({ jsonLd: ['{"@context":"https://schema.org","@type":"Service"}'] })), 'json-ld')).toEqual({
+			status: 'fail',
+			message: 'Block 1: $ Service is missing name'
+		});
+		expect(check(auditSeo(snapshot({ jsonLd: [] })), 'json-ld').status).toBe('warn');
+	});
+});
@@ -0,0 +1,152 @@
+/**
+ * SEO checklist for a rendered page
+ * The checks work on a plain snapshot of the page so they can run against the live DOM
+ * or against HTML that has been parsed some other way.
+ */
+
+import { validateSchema } from './schema';
+
+export const TITLE_MIN_LENGTH = 30;
+export const TITLE_MAX_LENGTH = 60;
+export const DESCRIPTION_MIN_LENGTH = 50;
+export const DESCRIPTION_MAX_LENGTH = 160;
+
+export interface SeoHeading {
+  level: number;
+  text: string;
+}
+
+export interface SeoSnapshot {
+  pathname: string;
+  title?: string;
+  description?: string;
+  canonical?: string;
+  headings: SeoHeading[];
+  // Raw contents of each application/ld+json script
+  jsonLd: string[];
+}
+
+export type SeoCheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface SeoCheck {
+  id: 'title' | 'description' | 'canonical' | 'headings' | 'json-ld';
+  label: string;
+  status: SeoCheckStatus;
+  message: string;
+}
+
+function lengthCheck(
+  id: 'title' | 'description',
+  label: string,
+  value: string | undefined,
+  min: number,
+  max: number
+): SeoCheck {
+  const text = value?.trim() ?? '';
+  if (!text) return { id, label, status: 'fail', message: `No ${id}` };
+
+  const length = `${text.length} characters`;
+  if (text.length > max) return { id, label, status: 'warn', message: `${length}, over ${max} so it may be truncated` };
+  if (text.length < min) return { id, label, status: 'warn', message: `${length}, under ${min} so it may be too vague` };
+  return { id, label, status: 'pass', message: length };
+}
+
+const trimSlash = (pathname: string) => (pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname);
+
+function canonicalCheck(snapshot: SeoSnapshot): SeoCheck {
+  const check = (status: SeoCheckStatus, message: string): SeoCheck => ({ id: 'canonical', label: 'Canonical', status, message });
+  if (!snapshot.canonical) return check('fail', 'No canonical link');
+
+  let url: URL;
+  try {
+    url = new URL(snapshot.canonical);
+  } catch {
+    return check('fail', `${snapshot.canonical} is not an absolute URL`);
+  }
+
+  // The origin differs between dev and production, so only the path has to match
+  if (trimSlash(url.pathname) !== trimSlash(snapshot.pathname)) {
+    return check('warn', `Points at ${url.pathname}, not this page`);
+  }
+  return check('pass', snapshot.canonical);
+}
+
+function headingsCheck(headings: SeoHeading[]): SeoCheck {
+  const check = (status: SeoCheckStatus, message: string): SeoCheck => ({ id: 'headings', label: 'Heading outline', status, message });
+
+  const h1s = headings.filter((heading) => heading.level === 1).length;
+  if (h1s === 0) return check('fail', 'No h1');
+  if (h1s > 1) return check('fail', `${h1s} h1 elements, expected one`);
+
+  const empty = headings.find((heading) => !heading.text.trim());
+  if (empty) return check('warn', `An h${empty.level} has no text`);
+
+  for (let index = 1; index < headings.length; index++) {
+    const [previous, current] = [headings[index - 1], headings[index]];
+    if (current.level > previous.level + 1) {
+      return check('warn', `h${previous.level} "${previous.text}" is followed by h${current.level} "${current.text}"`);
+    }
+  }
+  return check('pass', `${headings.length} heading${headings.length === 1 ? '' : 's'}, no skipped levels`);
+}
+
+function schemaTypes(data: unknown): string[] {
+  if (Array.isArray(data)) return data.flatMap(schemaTypes);
+  if (!data || typeof data !== 'object') return [];
+
+  const node = data as Record<string, unknown>;
+  if (Array.isArray(node['@graph'])) return schemaTypes(node['@graph']);
+  return [node['@type']].flat().filter((type): type is string => typeof type === 'string');
+}
+
+function jsonLdCheck(blocks: string[]): SeoCheck {
+  const check = (status: SeoCheckStatus, message: string): SeoCheck => ({ id: 'json-ld', label: 'JSON-LD', status, message });
+  if (blocks.length === 0) return check('warn', 'No structured data');
+
+  const types: string[] = [];
+  for (const [index, block] of blocks.entries()) {
+    let data: unknown;
+    try {
+      data = JSON.parse(block);
+    } catch {
+      return check('fail', `Block ${index + 1} is not valid JSON`);
+    }
+    const blockTypes = schemaTypes(data);
+    if (blockTypes.length === 0) return check('fail', `Block ${index + 1} has no @type`);
+
+    const [issue] = validateSchema(data);
+    if (issue) return check('fail', `Block ${index + 1}: ${issue.path} ${issue.message}`);
+    types.push(...blockTypes);
+  }
+  return check('pass', types.join(', '));
+}
+
+/**
+ * Run every check, in the order they are listed in the checklist
+ */
+export function auditSeo(snapshot: SeoSnapshot): SeoCheck[] {
+  return [
+    lengthCheck('title', 'Title', snapshot.title, TITLE_MIN_LENGTH, TITLE_MAX_LENGTH),
+    lengthCheck('description', 'Meta description', snapshot.description, DESCRIPTION_MIN_LENGTH, DESCRIPTION_MAX_LENGTH),
+    canonicalCheck(snapshot),
+    headingsCheck(snapshot.headings),
+    jsonLdCheck(snapshot.jsonLd)
+  ];
+}
+
+/**
+ * Snapshot the live document, for tooling that runs in the browser
+ */
+export function snapshotDocument(doc: Document): SeoSnapshot {
+  return {
+    pathname: doc.location?.pathname ?? '/',
+    title: doc.title,
+    description: doc.querySelector<HTMLMetaElement>('meta[name="description"]')?.content,
+    canonical: doc.querySelector<HTMLLinkElement>('link[rel="canonical"]')?.getAttribute('href') ?? undefined,
+    headings: [...doc.querySelectorAll<HTMLHeadingElement>('h1, h2, h3, h4, h5, h6')].map((heading) => ({
+      level: Number(heading.localName.slice(1)),
+      text: heading.textContent?.replace(/\s+/g, ' ').trim() ?? ''
+    })),
+    jsonLd: [...doc.querySelectorAll('script[type="application/ld+json"]')].map((script) => script.textContent ?? '')
+  };
+}
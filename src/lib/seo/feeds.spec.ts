@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { site } from '$lib/config/site';
+import { renderAtom, renderJsonFeed, renderRss, type FeedItem } from './feeds';
+
+const items: FeedItem[] = [
+	{
+		pathname: '/blog/older',
+		title: 'Older post',
+		summary: 'Plain summary',
+		published: '2025-07-01',
+		tags: ['Strategy']
+	},
+	{
+		pathname: '/blog/seo-&-ads/',
+		title: 'SEO & Ads: <what> "works"',
+		summary: 'Fast sites rank & convert <better>',
+		published: '2025-09-01',
+		updated: '2025-09-15',
+		tags: ['SEO', 'PPC & Ads'],
+		image: '/racing.jpg'
+	}
+];
+
+describe('renderRss', () => {
+	const xml = renderRss(site, items);
+
+	it('escapes titles, summaries and categories', () => {
+		expect(xml).toContain('<title>SEO &amp; Ads: &lt;what&gt; &quot;works&quot;</title>');
+		expect(xml).toContain('<description>Fast sites rank &amp; convert &lt;better&gt;</description>');
+		expect(xml).toContain('<category>PPC &amp; Ads</category>');
+		expect(xml).not.toContain('<what>');
+	});
+
+	it('uses canonical absolute links and lists the newest entry first', () => {
+		expect(xml).toContain('<link>https://taitmedia.com/blog/seo-&amp;-ads</link>');
+		expect(xml.indexOf('/blog/seo-')).toBeLessThan(xml.indexOf('/blog/older'));
+		expect(xml).toContain('<pubDate>Mon, 01 Sep 2025 00:00:00 GMT</pubDate>');
+		expect(xml).toContain('<atom:link href="https://taitmedia.com/rss.xml" rel="self"');
+	});
+});
+
+describe('renderAtom', () => {
+	it('reports the latest update and tags as categories', () => {
+		const xml = renderAtom(site, items);
+
+		expect(xml).toContain('<updated>2025-09-15T00:00:00.000Z</updated>');
+		expect(xml).toContain('<category term="PPC &amp; Ads" />');
+		expect(xml).toContain('<summary type="text">Fast sites rank &amp; convert &lt;better&gt;</summary>');
+	});
+});
+
+describe('renderJsonFeed', () => {
+	it('renders JSON Feed 1.1 with absolute URLs', () => {
+		const feed = JSON.parse(renderJsonFeed(site, items));
+
+		expect(feed.version).toBe('https://jsonfeed.org/version/1.1');
+		expect(feed.feed_url).toBe('https://taitmedia.com/feed.json');
+		expect(feed.items[0]).toMatchObject({
+			id: 'https://taitmedia.com/blog/seo-&-ads',
+			title: 'SEO & Ads: <what> "works"',
+			content_text: 'Fast sites rank & convert <better>',
+			image: 'https://taitmedia.com/racing.jpg',
+			tags: ['SEO', 'PPC & Ads']
+		});
+		expect(feed.items[1]).not.toHaveProperty('image');
+	});
+});
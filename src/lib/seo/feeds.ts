@@ -0,0 +1,151 @@
+/**
+ * RSS 2.0, Atom 1.0 and JSON Feed 1.1 rendering for published content
+ */
+
+import type { SiteConfig } from '$lib/config/site';
+import { absoluteUrl, escapeXml, generateCanonicalUrl } from './utils';
+
+export const FEED_PATHS = {
+  rss: '/rss.xml',
+  atom: '/atom.xml',
+  json: '/feed.json'
+} as const;
+
+// Aggregators only look at the most recent entries anyway
+export const MAX_FEED_ITEMS = 50;
+
+export interface FeedItem {
+  // Site-relative path of the entry, e.g. /blog/some-post
+  pathname: string;
+  title: string;
+  summary: string;
+  // YYYY-MM-DD or a full ISO timestamp
+  published: string;
+  updated?: string;
+  tags: string[];
+  image?: string;
+  author?: string;
+}
+
+function toDate(value: string): Date {
+  return new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : value);
+}
+
+function newest(items: FeedItem[]): Date {
+  const times = items.map((item) => toDate(item.updated ?? item.published).getTime());
+  return times.length > 0 ? new Date(Math.max(...times)) : new Date(0);
+}
+
+/**
+ * Newest entries first, capped at MAX_FEED_ITEMS
+ */
+export function sortFeedItems(items: FeedItem[]): FeedItem[] {
+  return [...items]
+    .sort((a, b) => toDate(b.published).getTime() - toDate(a.published).getTime())
+    .slice(0, MAX_FEED_ITEMS);
+}
+
+/**
+ * Render an RSS 2.0 feed
+ */
+export function renderRss(siteConfig: SiteConfig, items: FeedItem[]): string {
+  const entries = sortFeedItems(items).map((item) => {
+    const url = generateCanonicalUrl(item.pathname, siteConfig.url);
+    const categories = item.tags.map((tag) => `\n      <category>${escapeXml(tag)}</category>`).join('');
+
+    return `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(url)}</link>
+      <guid isPermaLink="true">${escapeXml(url)}</guid>
+      <description>${escapeXml(item.summary)}</description>
+      <pubDate>${toDate(item.published).toUTCString()}</pubDate>
+      <dc:creator>${escapeXml(item.author ?? siteConfig.author)}</dc:creator>${categories}
+    </item>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(siteConfig.title)}</title>
+    <link>${escapeXml(siteConfig.url)}</link>
+    <description>${escapeXml(siteConfig.description)}</description>
+    <language>${escapeXml(siteConfig.lang)}</language>
+    <lastBuildDate>${newest(items).toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(`${siteConfig.url}${FEED_PATHS.rss}`)}" rel="self" type="application/rss+xml" />
+    <image>
+      <url>${escapeXml(absoluteUrl(siteConfig.defaultImage, siteConfig.url))}</url>
+      <title>${escapeXml(siteConfig.title)}</title>
+      <link>${escapeXml(siteConfig.url)}</link>
+    </image>
+${entries.join('\n')}
+  </channel>
+</rss>
+`;
+}
+
+/**
+ * Render an Atom 1.0 feed
+ */
+export function renderAtom(siteConfig: SiteConfig, items: FeedItem[]): string {
+  const entries = sortFeedItems(items).map((item) => {
+    const url = generateCanonicalUrl(item.pathname, siteConfig.url);
+    const categories = item.tags.map((tag) => `\n    <category term="${escapeXml(tag)}" />`).join('');
+
+    return `  <entry>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(url)}" />
+    <id>${escapeXml(url)}</id>
+    <published>${toDate(item.published).toISOString()}</published>
+    <updated>${toDate(item.updated ?? item.published).toISOString()}</updated>
+    <author><name>${escapeXml(item.author ?? siteConfig.author)}</name></author>
+    <summary type="text">${escapeXml(item.summary)}</summary>${categories}
+  </entry>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeXml(siteConfig.lang)}">
+  <title>${escapeXml(siteConfig.title)}</title>
+  <subtitle>${escapeXml(siteConfig.description)}</subtitle>
+  <link rel="alternate" type="text/html" href="${escapeXml(siteConfig.url)}" />
+  <link rel="self" type="application/atom+xml" href="${escapeXml(`${siteConfig.url}${FEED_PATHS.atom}`)}" />
+  <id>${escapeXml(`${siteConfig.url}/`)}</id>
+  <updated>${newest(items).toISOString()}</updated>
+  <author><name>${escapeXml(siteConfig.author)}</name></author>
+  <logo>${escapeXml(absoluteUrl(siteConfig.defaultImage, siteConfig.url))}</logo>
+${entries.join('\n')}
+</feed>
+`;
+}
+
+/**
+ * Render a JSON Feed 1.1 document
+ */
+export function renderJsonFeed(siteConfig: SiteConfig, items: FeedItem[]): string {
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: siteConfig.title,
+    description: siteConfig.description,
+    home_page_url: siteConfig.url,
+    feed_url: `${siteConfig.url}${FEED_PATHS.json}`,
+    icon: absoluteUrl(siteConfig.defaultImage, siteConfig.url),
+    language: siteConfig.lang,
+    authors: [{ name: siteConfig.author, url: siteConfig.url }],
+    items: sortFeedItems(items).map((item) => {
+      const url = generateCanonicalUrl(item.pathname, siteConfig.url);
+      return {
+        id: url,
+        url,
+        title: item.title,
+        summary: item.summary,
+        content_text: item.summary,
+        image: item.image ? absoluteUrl(item.image, siteConfig.url) : undefined,
+        date_published: toDate(item.published).toISOString(),
+        date_modified: item.updated ? toDate(item.updated).toISOString() : undefined,
+        authors: [{ name: item.author ?? siteConfig.author }],
+        tags: item.tags
+      };
+    })
+  };
+
+  return JSON.stringify(feed, null, 2);
+}
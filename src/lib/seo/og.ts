@@ -0,0 +1,25 @@
+/**
+ * Where generated Open Graph cards live
+ * Every indexable page gets a card at /og/<pathname>.png, rendered at build time
+ */
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+// Route param of the site-wide card that site.defaultImage points at
+export const OG_DEFAULT_CARD = 'default';
+
+/**
+ * '/' -> '/og/index.png', '/blog/hello/' -> '/og/blog/hello.png'
+ */
+export function ogImagePath(pathname: string): string {
+  const path = pathname.replace(/^\/+|\/+$/g, '');
+  return `/og/${path || 'index'}.png`;
+}
+
+/**
+ * The page a card's route param belongs to: 'index' -> '/', 'blog/hello' -> '/blog/hello'
+ */
+export function ogPathname(param: string): string {
+  return param === 'index' ? '/' : `/${param}`;
+}
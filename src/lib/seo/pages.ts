@@ -0,0 +1,58 @@
+/**
+ * Public pages of the site and the SEO metadata crawlers see for them
+ */
+
+import { sitemapOptions } from '$lib/config/routes';
+import type { ChangeFrequency, SEOMeta, SitemapImage } from './utils';
+
+export interface PublicPage {
+  pathname: string;
+  meta: SEOMeta;
+  priority?: number;
+  changefreq?: ChangeFrequency;
+  images?: SitemapImage[];
+}
+
+export const publicPages: PublicPage[] = [
+  {
+    pathname: '/',
+    meta: {
+      title: 'Tait Media Solutions - Marketing Agency',
+      description:
+        'Tait Media Solutions is a marketing agency building fast, search-friendly websites, social media campaigns and brand strategy that turn attention into leads.',
+      type: 'website',
+      modifiedTime: '2025-09-15T00:00:00.000Z'
+    },
+    ...sitemapOptions('/'),
+    images: [{ loc: '/blue-logo.png', title: 'Tait Media Solutions logo' }]
+  },
+  {
+    pathname: '/contact',
+    meta: {
+      title: 'Contact Us',
+      description:
+        'Tell Tait Media Solutions about your project. We reply to every enquiry within one business day with next steps and an honest view of fit.'
+    },
+    ...sitemapOptions('/contact')
+  },
+  {
+    pathname: '/book',
+    meta: {
+      title: 'Book a Discovery Call',
+      description:
+        'Pick a time for a free 30-minute discovery call with Tait Media Solutions. We will talk through your goals and whether we are the right fit.'
+    },
+    ...sitemapOptions('/book')
+  }
+];
+
+/**
+ * SEO metadata for a public page, for use in its load function
+ */
+export function getPageMeta(pathname: string): SEOMeta {
+  const page = publicPages.find((entry) => entry.pathname === pathname);
+  if (!page) {
+    throw new Error(`No public page registered for ${pathname}`);
+  }
+  return page.meta;
+}
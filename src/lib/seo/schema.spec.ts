@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { site } from '$lib/config/site';
+import { publicPages } from './pages';
+import {
+	buildAggregateRating,
+	buildFaqPage,
+	buildReview,
+	buildVideoObject,
+	buildWebSite,
+	extractJsonLd,
+	validateSchema
+} from './schema';
+import { generatePageSchemas, generateServiceSchema } from './utils';
+
+describe('page JSON-LD', () => {
+	it.each(publicPages.map((page) => [page.pathname, page] as const))('%s has valid structured data', (pathname, page) => {
+		const schemas = generatePageSchemas(page.meta, site, pathname);
+
+		expect(schemas.length).toBeGreaterThan(0);
+		for (const schema of schemas) {
+			expect(validateSchema(schema), `${schema['@type']} on ${pathname}`).toEqual([]);
+		}
+	});
+});
+
+describe('schema builders', () => {
+	it('drops empty offer fields instead of emitting undefined', () => {
+		const schema = generateServiceSchema({ type: 'service', title: 'Web Design' }, site, '/services/web-design');
+		const [offer] = schema!.hasOfferCatalog!.itemListElement;
+
+		expect(offer).not.toHaveProperty('price');
+		expect(offer).not.toHaveProperty('priceCurrency');
+		expect(validateSchema(schema)).toEqual([]);
+	});
+
+	it('adds a currency whenever a service has a price', () => {
+		const schema = generateServiceSchema(
+			{ type: 'service', title: 'SEO Audit', service: { price: '1500' } },
+			site,
+			'/services/seo-audit'
+		);
+
+		expect(schema!.hasOfferCatalog!.itemListElement[0]).toMatchObject({ price: '1500', priceCurrency: 'USD' });
+	});
+
+	it('builds a WebSite with a sitelinks search action', () => {
+		const schema = buildWebSite(site, `${site.url}/search?q={search_term_string}`);
+
+		expect(schema.potentialAction?.target.urlTemplate).toBe('https://taitmedia.com/search?q={search_term_string}');
+		expect(validateSchema(schema)).toEqual([]);
+	});
+
+	it('builds valid FAQ, review and video entities', () => {
+		const reviews = [buildReview({ author: 'Jane Doe', rating: 5 }), buildReview({ author: 'Sam Lee', rating: 4 })];
+
+		expect(validateSchema(buildFaqPage([{ question: 'How long does a site take?', answer: 'Six weeks.' }]))).toEqual([]);
+		expect(buildAggregateRating(reviews)).toMatchObject({ ratingValue: 4.5, reviewCount: 2 });
+		expect(buildAggregateRating([])).toBeNull();
+		expect(
+			validateSchema(
+				buildVideoObject({ name: 'Showreel', thumbnailUrl: 'https://taitmedia.com/racing.jpg', uploadDate: '2025-09-15' })
+			)
+		).toEqual([]);
+	});
+});
+
+describe('validateSchema', () => {
+	it('reports missing required fields with their path', () => {
+		const issues = validateSchema({
+			'@context': 'https://schema.org',
+			'@type': 'Article',
+			headline: 'Launch notes',
+			author: { '@type': 'Person' },
+			aggregateRating: { '@type': 'AggregateRating', ratingValue: 4 },
+			offers: { '@type': 'Offer', price: '10' }
+		});
+
+		expect(issues).toEqual([
+			{ path: '$', message: 'Article is missing image' },
+			{ path: '$', message: 'Article is missing datePublished' },
+			{ path: '$.author', message: 'Person is missing name' },
+			{ path: '$.aggregateRating', message: 'AggregateRating is missing ratingCount or reviewCount' },
+			{ path: '$.offers', message: 'Offer with a price is missing priceCurrency' }
+		]);
+	});
+
+	it('needs a url for an Organization it describes but only a name for one it refers to', () => {
+		const issues = validateSchema({
+			'@context': 'https://schema.org',
+			'@type': 'CreativeWork',
+			name: 'Site rebuild',
+			creator: { '@type': 'Organization', name: 'Tait Media Solutions' },
+			about: { '@type': 'Organization', name: 'Harbor Dental' },
+			review: {
+				'@type': 'Review',
+				author: { '@type': 'Person', name: 'A client' },
+				reviewRating: { '@type': 'Rating', ratingValue: 5 },
+				itemReviewed: { '@type': 'Organization' }
+			}
+		});
+
+		expect(issues).toEqual([
+			{ path: '$.creator', message: 'Organization is missing url' },
+			{ path: '$.review.itemReviewed', message: 'Organization is missing name' }
+		]);
+	});
+
+	it('requires the schema.org context', () => {
+		expect(validateSchema({ '@type': 'WebSite', name: 'Tait', url: 'https://taitmedia.com' })).toEqual([
+			{ path: '$', message: '@context must be https://schema.org' }
+		]);
+	});
+
+	it('reads JSON-LD blocks back out of rendered HTML', () => {
+		const html = `<head><script type="application/ld+json">{"@context":"https://schema.org","@type":"FAQPage","mainEntity":[]}</script></head>`;
+
+		expect(extractJsonLd(html).flatMap(validateSchema)).toEqual([
+			{ path: '$', message: 'FAQPage is missing mainEntity' }
+		]);
+	});
+});
@@ -0,0 +1,453 @@
+/**
+ * Typed schema.org builders for the JSON-LD we emit
+ * Builders drop empty fields so optional data never shows up as undefined or ""
+ */
+
+export const SCHEMA_CONTEXT = 'https://schema.org';
+
+export type JsonLd<T extends { '@type': string }> = T & { '@context': typeof SCHEMA_CONTEXT };
+
+export interface ImageObject {
+  '@type': 'ImageObject';
+  url: string;
+  width?: number;
+  height?: number;
+  caption?: string;
+}
+
+export interface PostalAddress {
+  '@type': 'PostalAddress';
+  streetAddress?: string;
+  addressLocality?: string;
+  addressRegion?: string;
+  postalCode?: string;
+  addressCountry?: string;
+}
+
+export interface GeoCoordinates {
+  '@type': 'GeoCoordinates';
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeoCircle {
+  '@type': 'GeoCircle';
+  geoMidpoint: GeoCoordinates;
+  geoRadius: number;
+}
+
+export interface Place {
+  '@type': 'Country' | 'City' | 'State';
+  name: string;
+}
+
+export interface Person {
+  '@type': 'Person';
+  name: string;
+  url?: string;
+}
+
+export interface Organization {
+  '@type': 'Organization';
+  name: string;
+  legalName?: string;
+  url: string;
+  description?: string;
+  email?: string;
+  telephone?: string;
+  address?: PostalAddress;
+  logo?: string | ImageObject;
+  foundingDate?: string;
+  knowsAbout?: string[];
+  areaServed?: GeoCircle | Place | Place[];
+  hasOfferCatalog?: OfferCatalog;
+  sameAs?: string[];
+}
+
+export interface LocalBusiness extends Omit<Organization, '@type'> {
+  '@type': 'LocalBusiness' | 'ProfessionalService';
+  address: PostalAddress;
+  geo?: GeoCoordinates;
+  priceRange?: string;
+  openingHours?: string[];
+  image?: string;
+  aggregateRating?: AggregateRating;
+  review?: Review[];
+}
+
+export interface SearchAction {
+  '@type': 'SearchAction';
+  target: { '@type': 'EntryPoint'; urlTemplate: string };
+  'query-input': string;
+}
+
+export interface WebSite {
+  '@type': 'WebSite';
+  name: string;
+  url: string;
+  description?: string;
+  inLanguage?: string;
+  publisher?: Pick<Organization, '@type' | 'name' | 'url'>;
+  potentialAction?: SearchAction;
+}
+
+export interface WebPage {
+  '@type': 'WebPage';
+  '@id': string;
+}
+
+export interface Article {
+  '@type': 'Article' | 'BlogPosting';
+  headline: string;
+  description?: string;
+  image: string | string[];
+  author: Person | Pick<Organization, '@type' | 'name' | 'url'>;
+  publisher?: { '@type': 'Organization'; name: string; url: string; logo?: ImageObject };
+  datePublished: string;
+  dateModified?: string;
+  keywords?: string[];
+  articleSection?: string;
+  mainEntityOfPage?: WebPage;
+}
+
+export interface Offer {
+  '@type': 'Offer';
+  name?: string;
+  description?: string;
+  price?: string;
+  priceCurrency?: string;
+  priceRange?: string;
+  url?: string;
+  category?: string;
+  itemOffered?: Service;
+}
+
+export interface OfferCatalog {
+  '@type': 'OfferCatalog';
+  name: string;
+  itemListElement: Offer[];
+}
+
+export interface Service {
+  '@type': 'Service';
+  name: string;
+  description?: string;
+  serviceType?: string;
+  url?: string;
+  provider?: Pick<Organization, '@type' | 'name' | 'url'>;
+  areaServed?: Place | Place[];
+  hasOfferCatalog?: OfferCatalog;
+  offers?: Offer | Offer[];
+  aggregateRating?: AggregateRating;
+}
+
+export interface ListItem {
+  '@type': 'ListItem';
+  position: number;
+  name: string;
+  item?: string;
+}
+
+export interface BreadcrumbList {
+  '@type': 'BreadcrumbList';
+  itemListElement: ListItem[];
+}
+
+export interface Answer {
+  '@type': 'Answer';
+  text: string;
+}
+
+export interface Question {
+  '@type': 'Question';
+  name: string;
+  acceptedAnswer: Answer;
+}
+
+export interface FAQPage {
+  '@type': 'FAQPage';
+  mainEntity: Question[];
+}
+
+export interface Rating {
+  '@type': 'Rating';
+  ratingValue: number;
+  bestRating?: number;
+  worstRating?: number;
+}
+
+export interface AggregateRating {
+  '@type': 'AggregateRating';
+  ratingValue: number;
+  ratingCount?: number;
+  reviewCount?: number;
+  bestRating?: number;
+  worstRating?: number;
+}
+
+export interface Review {
+  '@type': 'Review';
+  author: Person | Pick<Organization, '@type' | 'name'>;
+  reviewRating: Rating;
+  reviewBody?: string;
+  datePublished?: string;
+  itemReviewed?: Pick<Organization, '@type' | 'name'> | Pick<Service, '@type' | 'name'>;
+}
+
+export interface VideoObject {
+  '@type': 'VideoObject';
+  name: string;
+  description?: string;
+  thumbnailUrl: string | string[];
+  uploadDate: string;
+  duration?: string;
+  contentUrl?: string;
+  embedUrl?: string;
+}
+
+export interface CreativeWork {
+  '@type': 'CreativeWork';
+  name: string;
+  description?: string;
+  url?: string;
+  image?: string | string[];
+  creator: Pick<Organization, '@type' | 'name' | 'url'>;
+  about?: Pick<Organization, '@type' | 'name'>;
+  dateCreated?: string;
+  genre?: string;
+  keywords?: string[];
+  review?: Review;
+}
+
+export type SchemaType =
+  | Organization
+  | CreativeWork
+  | LocalBusiness
+  | WebSite
+  | Article
+  | Service
+  | BreadcrumbList
+  | FAQPage
+  | Review
+  | AggregateRating
+  | VideoObject;
+
+/**
+ * Recursively drop undefined, null, empty strings, empty arrays and empty objects
+ */
+export function compact<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => compact(item)).filter((item) => !isEmpty(item)) as T;
+  }
+
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      const cleaned = compact(field);
+      if (!isEmpty(cleaned)) result[key] = cleaned;
+    }
+    return result as T;
+  }
+
+  return value;
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+}
+
+/**
+ * Wrap a schema.org entity as a top-level JSON-LD document
+ */
+export function jsonLd<T extends SchemaType>(entity: T): JsonLd<T> {
+  return { '@context': SCHEMA_CONTEXT, ...compact(entity) };
+}
+
+/**
+ * Build a WebSite entity, with a sitelinks search box when a search URL template is given
+ */
+export function buildWebSite(
+  site: { title: string; url: string; description?: string; lang?: string },
+  searchUrlTemplate?: string
+): JsonLd<WebSite> {
+  return jsonLd({
+    '@type': 'WebSite',
+    name: site.title,
+    url: site.url,
+    description: site.description,
+    inLanguage: site.lang,
+    publisher: { '@type': 'Organization', name: site.title, url: site.url },
+    potentialAction: searchUrlTemplate
+      ? {
+          '@type': 'SearchAction',
+          target: { '@type': 'EntryPoint', urlTemplate: searchUrlTemplate },
+          'query-input': 'required name=search_term_string'
+        }
+      : undefined
+  });
+}
+
+/**
+ * Build a LocalBusiness entity for a physical office
+ */
+export function buildLocalBusiness(business: Omit<LocalBusiness, '@type'>): JsonLd<LocalBusiness> {
+  return jsonLd({ '@type': 'LocalBusiness', ...business });
+}
+
+/**
+ * Build an FAQPage from question/answer pairs
+ */
+export function buildFaqPage(items: { question: string; answer: string }[]): JsonLd<FAQPage> {
+  return jsonLd({
+    '@type': 'FAQPage',
+    mainEntity: items.map(({ question, answer }) => ({
+      '@type': 'Question',
+      name: question,
+      acceptedAnswer: { '@type': 'Answer', text: answer }
+    }))
+  });
+}
+
+/**
+ * Build a Review with a 1-5 star rating
+ */
+export function buildReview(review: {
+  author: string;
+  rating: number;
+  body?: string;
+  datePublished?: string;
+  itemReviewed?: string;
+}): Review {
+  return compact({
+    '@type': 'Review',
+    author: { '@type': 'Person', name: review.author },
+    reviewRating: { '@type': 'Rating', ratingValue: review.rating, bestRating: 5, worstRating: 1 },
+    reviewBody: review.body,
+    datePublished: review.datePublished,
+    itemReviewed: review.itemReviewed ? { '@type': 'Organization', name: review.itemReviewed } : undefined
+  });
+}
+
+/**
+ * Summarize reviews as an AggregateRating, or null when there are none
+ */
+export function buildAggregateRating(reviews: Pick<Review, 'reviewRating'>[]): AggregateRating | null {
+  if (reviews.length === 0) return null;
+
+  const total = reviews.reduce((sum, review) => sum + review.reviewRating.ratingValue, 0);
+  return {
+    '@type': 'AggregateRating',
+    ratingValue: Math.round((total / reviews.length) * 10) / 10,
+    reviewCount: reviews.length,
+    bestRating: 5,
+    worstRating: 1
+  };
+}
+
+/**
+ * Build a CreativeWork for a piece of client work
+ */
+export function buildCreativeWork(work: Omit<CreativeWork, '@type'>): JsonLd<CreativeWork> {
+  return jsonLd({ '@type': 'CreativeWork', ...work });
+}
+
+/**
+ * Build a VideoObject for an embedded or hosted video
+ */
+export function buildVideoObject(video: Omit<VideoObject, '@type'>): JsonLd<VideoObject> {
+  return jsonLd({ '@type': 'VideoObject', ...video });
+}
+
+// Properties Google needs before an entity is eligible for rich results.
+// A nested array lists alternatives where any one will do.
+const REQUIRED_FIELDS: Record<string, (string | string[])[]> = {
+  Organization: ['name', 'url'],
+  LocalBusiness: ['name', 'address'],
+  ProfessionalService: ['name', 'address'],
+  WebSite: ['name', 'url'],
+  SearchAction: ['target', 'query-input'],
+  WebPage: ['@id'],
+  Article: ['headline', 'image', 'datePublished', 'author'],
+  BlogPosting: ['headline', 'image', 'datePublished', 'author'],
+  Service: ['name'],
+  CreativeWork: ['name', 'creator'],
+  BreadcrumbList: ['itemListElement'],
+  ListItem: ['position', 'name'],
+  FAQPage: ['mainEntity'],
+  Question: ['name', 'acceptedAnswer'],
+  Answer: ['text'],
+  Review: ['author', 'reviewRating'],
+  Rating: ['ratingValue'],
+  AggregateRating: ['ratingValue', ['ratingCount', 'reviewCount']],
+  VideoObject: ['name', 'thumbnailUrl', 'uploadDate'],
+  ImageObject: ['url'],
+  Person: ['name']
+};
+
+// Properties that point at an entity by name rather than describe it, e.g. the client a
+// CreativeWork is about. Whatever their type, these only need a name.
+const REFERENCE_PROPERTIES = new Set(['about', 'itemReviewed']);
+const REFERENCE_FIELDS = ['name'];
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Check a JSON-LD document for missing required fields, walking nested entities
+ */
+export function validateSchema(data: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return [{ path: '$', message: 'JSON-LD must be an object' }];
+  }
+
+  if ((data as Record<string, unknown>)['@context'] !== SCHEMA_CONTEXT) {
+    issues.push({ path: '$', message: `@context must be ${SCHEMA_CONTEXT}` });
+  }
+
+  visit(data, '$', issues);
+  return issues;
+}
+
+function visit(value: unknown, path: string, issues: SchemaIssue[], reference = false): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => visit(item, `${path}[${index}]`, issues, reference));
+    return;
+  }
+
+  if (!value || typeof value !== 'object') return;
+
+  const entity = value as Record<string, unknown>;
+  const type = entity['@type'];
+
+  if (typeof type === 'string') {
+    for (const field of reference ? REFERENCE_FIELDS : (REQUIRED_FIELDS[type] ?? [])) {
+      const alternatives = Array.isArray(field) ? field : [field];
+      if (alternatives.every((name) => isEmpty(entity[name]))) {
+        issues.push({ path, message: `${type} is missing ${alternatives.join(' or ')}` });
+      }
+    }
+
+    if (type === 'Offer' && !isEmpty(entity.price) && isEmpty(entity.priceCurrency)) {
+      issues.push({ path, message: 'Offer with a price is missing priceCurrency' });
+    }
+  }
+
+  for (const [key, field] of Object.entries(entity)) {
+    if (key !== '@context' && key !== '@type') visit(field, `${path}.${key}`, issues, REFERENCE_PROPERTIES.has(key));
+  }
+}
+
+/**
+ * Pull every JSON-LD block out of rendered HTML
+ */
+export function extractJsonLd(html: string): unknown[] {
+  const blocks = html.matchAll(/<script[^>]+type="application\/ld\+json"[^>]*>([\s\S]*?)<\/script>/g);
+  return Array.from(blocks, ([, body]) => JSON.parse(body));
+}
@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RequestEvent } from '@sveltejs/kit';
+import { site } from '$lib/config/site';
+import type { PublicPage } from './pages';
+import {
+	chunkSitemapEntries,
+	MAX_URLS_PER_SITEMAP,
+	renderSitemap,
+	renderSitemapIndex,
+	renderUrlset,
+	sitemapChunkUrl
+} from './sitemap';
+import type { SitemapEntry } from './utils';
+
+const pages = vi.hoisted(() => ({ current: [] as PublicPage[] }));
+vi.mock('$lib/server/sitemap', () => ({ getSitemapPages: () => pages.current }));
+
+const { GET: getSitemap } = await import('../../routes/sitemap.xml/+server');
+const { GET: getSitemapChunk, entries: chunkEntries } = await import('../../routes/sitemap-[page].xml/+server');
+
+const entry = (url: string, overrides: Partial<SitemapEntry> = {}): SitemapEntry => ({
+	url,
+	changefreq: 'monthly',
+	priority: 0.5,
+	images: [],
+	...overrides
+});
+
+const page = (pathname: string, meta: PublicPage['meta'] = { title: pathname }): PublicPage => ({
+	pathname,
+	meta,
+	priority: 0.5,
+	changefreq: 'monthly'
+});
+
+// Enough pages to need a sitemap index: one full file and one more
+const manyPages = () => Array.from({ length: MAX_URLS_PER_SITEMAP + 1 }, (_, i) => page(`/blog/post-${i}`));
+
+describe('renderUrlset', () => {
+	it('escapes locations and image text', () => {
+		const xml = renderUrlset([
+			entry('https://taitmedia.com/blog?tag=seo&page=2', {
+				images: [{ loc: 'https://taitmedia.com/a&b.png', title: 'Before <after>', caption: `"Ads" & 'SEO'` }]
+			})
+		]);
+
+		expect(xml).toContain('<loc>https://taitmedia.com/blog?tag=seo&amp;page=2</loc>');
+		expect(xml).toContain('<image:loc>https://taitmedia.com/a&amp;b.png</image:loc>');
+		expect(xml).toContain('<image:title>Before &lt;after&gt;</image:title>');
+		expect(xml).toContain('<image:caption>&quot;Ads&quot; &amp; &apos;SEO&apos;</image:caption>');
+	});
+
+	it('writes known lastmod dates as given and leaves unknown ones out', () => {
+		const xml = renderUrlset([
+			entry('https://taitmedia.com/blog/a', { lastmod: '2025-09-15' }),
+			entry('https://taitmedia.com/', { lastmod: '2025-09-15T00:00:00.000Z', priority: 1 }),
+			entry('https://taitmedia.com/contact')
+		]);
+
+		expect(xml).toContain('<lastmod>2025-09-15</lastmod>');
+		expect(xml).toContain('<lastmod>2025-09-15T00:00:00.000Z</lastmod>');
+		expect(xml.match(/<lastmod>/g)).toHaveLength(2);
+		expect(xml).toContain('<priority>1.0</priority>');
+		expect(xml).toContain('<changefreq>monthly</changefreq>');
+	});
+
+	it('takes lastmod from the modified time, then the published time', () => {
+		const xml = renderSitemap(site, [
+			page('/blog/a', { title: 'A', publishedTime: '2025-07-01', modifiedTime: '2025-09-15' }),
+			page('/blog/b', { title: 'B', publishedTime: '2025-07-01' })
+		]);
+
+		expect(xml).toContain(`<loc>${site.url}/blog/a</loc>\n    <lastmod>2025-09-15</lastmod>`);
+		expect(xml).toContain(`<loc>${site.url}/blog/b</loc>\n    <lastmod>2025-07-01</lastmod>`);
+	});
+});
+
+describe('chunkSitemapEntries', () => {
+	const entries = ['a', 'b', 'c', 'd', 'e'].map((name) => entry(`https://taitmedia.com/${name}`));
+
+	it('splits entries at the chunk size, keeping their order', () => {
+		const chunks = chunkSitemapEntries(entries, 2);
+
+		expect(chunks.map((chunk) => chunk.length)).toEqual([2, 2, 1]);
+		expect(chunks.flat()).toEqual(entries);
+	});
+
+	it('keeps an exact fit in one chunk and nothing in none', () => {
+		expect(chunkSitemapEntries(entries, 5)).toHaveLength(1);
+		expect(chunkSitemapEntries([], 5)).toEqual([]);
+	});
+});
+
+describe('renderSitemapIndex', () => {
+	it('points at each numbered chunk with its newest lastmod', () => {
+		const xml = renderSitemapIndex(
+			[
+				[entry('https://taitmedia.com/a', { lastmod: '2025-07-01' }), entry('https://taitmedia.com/b', { lastmod: '2025-09-15' })],
+				[entry('https://taitmedia.com/c')]
+			],
+			site
+		);
+
+		expect(xml).toContain('<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">');
+		expect(xml).toContain(`<loc>${sitemapChunkUrl(1, site)}</loc>\n    <lastmod>2025-09-15</lastmod>`);
+		expect(xml).toContain(`<loc>${site.url}/sitemap-2.xml</loc>\n  </sitemap>`);
+	});
+});
+
+describe('renderSitemap', () => {
+	it('is a single urlset while every page fits in one file', () => {
+		const xml = renderSitemap(site, [page('/'), page('/contact')]);
+
+		expect(xml).toContain('<urlset');
+		expect(xml).not.toContain('<sitemapindex');
+		expect(xml.match(/<url>/g)).toHaveLength(2);
+	});
+
+	it('becomes an index once the pages overflow one file', () => {
+		const xml = renderSitemap(site, manyPages());
+
+		expect(xml).toContain('<sitemapindex');
+		expect(xml.match(/<sitemap>/g)).toHaveLength(2);
+	});
+});
+
+describe('sitemap endpoints', () => {
+	const event = (page?: string) => ({ params: { page } }) as unknown as RequestEvent<never, never>;
+
+	beforeEach(() => {
+		pages.current = [page('/'), page('/contact')];
+	});
+
+	it('serves a urlset and no numbered sitemaps for a small site', async () => {
+		const response = await getSitemap(event());
+
+		expect(response.headers.get('content-type')).toBe('application/xml; charset=utf-8');
+		expect(await response.text()).toContain('<urlset');
+		expect(chunkEntries()).toEqual([]);
+		await expect(getSitemapChunk(event('1'))).rejects.toMatchObject({ status: 404 });
+	});
+
+	it('serves an index and one urlset per chunk for a large site', async () => {
+		pages.current = manyPages();
+
+		expect(await (await getSitemap(event())).text()).toContain('<sitemapindex');
+		expect(chunkEntries()).toEqual([{ page: '1' }, { page: '2' }]);
+
+		const last = await (await getSitemapChunk(event('2'))).text();
+		expect(last.match(/<url>/g)).toHaveLength(1);
+		expect(last).toContain(`<loc>${site.url}/blog/post-${MAX_URLS_PER_SITEMAP}</loc>`);
+		await expect(getSitemapChunk(event('3'))).rejects.toMatchObject({ status: 404 });
+		await expect(getSitemapChunk(event('x'))).rejects.toMatchObject({ status: 404 });
+	});
+});
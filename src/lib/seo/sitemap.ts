@@ -0,0 +1,127 @@
+/**
+ * XML Sitemap rendering for Tait Media Solutions
+ * Follows the sitemaps.org protocol plus Google's image extension
+ */
+
+import { publicPages, type PublicPage } from './pages';
+import { escapeXml, generateSitemapEntry, type SitemapEntry } from './utils';
+import type { SiteConfig } from '$lib/config/site';
+
+// Protocol limit per sitemap file
+export const MAX_URLS_PER_SITEMAP = 50000;
+
+/**
+ * Build sitemap entries for every public page
+ */
+export function collectSitemapEntries(
+  siteConfig: SiteConfig,
+  pages: PublicPage[] = publicPages
+): SitemapEntry[] {
+  return pages.map(page =>
+    generateSitemapEntry(
+      page.pathname,
+      siteConfig,
+      page.meta,
+      page.priority,
+      page.changefreq,
+      page.images
+    )
+  );
+}
+
+/**
+ * Split entries into sitemap-sized chunks
+ */
+export function chunkSitemapEntries(
+  entries: SitemapEntry[],
+  size: number = MAX_URLS_PER_SITEMAP
+): SitemapEntry[][] {
+  const chunks: SitemapEntry[][] = [];
+  for (let i = 0; i < entries.length; i += size) {
+    chunks.push(entries.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Render a <urlset> document
+ */
+export function renderUrlset(entries: SitemapEntry[]): string {
+  const urls = entries.map(entry => {
+    const lines = [`    <loc>${escapeXml(entry.url)}</loc>`];
+
+    if (entry.lastmod) {
+      lines.push(`    <lastmod>${escapeXml(entry.lastmod)}</lastmod>`);
+    }
+    lines.push(`    <changefreq>${entry.changefreq}</changefreq>`);
+    lines.push(`    <priority>${entry.priority.toFixed(1)}</priority>`);
+
+    entry.images.forEach(image => {
+      lines.push('    <image:image>');
+      lines.push(`      <image:loc>${escapeXml(image.loc)}</image:loc>`);
+      if (image.title) {
+        lines.push(`      <image:title>${escapeXml(image.title)}</image:title>`);
+      }
+      if (image.caption) {
+        lines.push(`      <image:caption>${escapeXml(image.caption)}</image:caption>`);
+      }
+      lines.push('    </image:image>');
+    });
+
+    return `  <url>\n${lines.join('\n')}\n  </url>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">',
+    ...urls,
+    '</urlset>'
+  ].join('\n');
+}
+
+/**
+ * Render a <sitemapindex> document pointing at each chunk
+ */
+export function renderSitemapIndex(chunks: SitemapEntry[][], siteConfig: SiteConfig): string {
+  const sitemaps = chunks.map((chunk, index) => {
+    const lastmod = chunk
+      .map(entry => entry.lastmod)
+      .filter((value): value is string => Boolean(value))
+      .sort()
+      .pop();
+
+    const lines = [`    <loc>${escapeXml(sitemapChunkUrl(index + 1, siteConfig))}</loc>`];
+    if (lastmod) {
+      lines.push(`    <lastmod>${escapeXml(lastmod)}</lastmod>`);
+    }
+    return `  <sitemap>\n${lines.join('\n')}\n  </sitemap>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps,
+    '</sitemapindex>'
+  ].join('\n');
+}
+
+/**
+ * Absolute URL of a numbered sitemap chunk (1-based)
+ */
+export function sitemapChunkUrl(page: number, siteConfig: SiteConfig): string {
+  return `${siteConfig.url}/sitemap-${page}.xml`;
+}
+
+/**
+ * Render /sitemap.xml - a plain urlset while everything fits in one file,
+ * otherwise an index of numbered sitemaps
+ */
+export function renderSitemap(siteConfig: SiteConfig, pages: PublicPage[] = publicPages): string {
+  const chunks = chunkSitemapEntries(collectSitemapEntries(siteConfig, pages));
+
+  if (chunks.length <= 1) {
+    return renderUrlset(chunks[0] ?? []);
+  }
+
+  return renderSitemapIndex(chunks, siteConfig);
+}
@@ -3,6 +3,24 @@
  * Handles meta tags, structured data, and SEO optimization
  */
 
+import {
+  buildWebSite,
+  jsonLd,
+  type Article,
+  type BreadcrumbList,
+  type JsonLd,
+  type ListItem,
+  type Offer,
+  type Organization,
+  type Place,
+  type SchemaType,
+  type Service,
+  type WebSite
+} from './schema';
+import type { SiteConfig, SitePlace } from '$lib/config/site';
+import { breadcrumbLabel } from '../config/routes';
+import { ogImagePath } from './og';
+
 export interface SEOMeta {
   title?: string;
   description?: string;
@@ -15,19 +33,30 @@ export interface SEOMeta {
   author?: string;
   section?: string;
   tags?: string[];
+  noindex?: boolean;
+  service?: ServiceDetails;
+  // Page-specific JSON-LD emitted after the generated blocks, e.g. CreativeWork or FAQPage
+  structuredData?: JsonLd<SchemaType>[];
 }
 
-export interface SiteConfig {
-  title: string;
-  description: string;
-  url: string;
-  twitter: string;
-  defaultImage: string;
-  logo: string;
-  author: string;
-  keywords: string;
-  locale: string;
-  type: string;
+export interface ServiceOffer {
+  name: string;
+  description?: string;
+  price?: string;
+  priceCurrency?: string;
+  priceRange?: string;
+}
+
+export interface ServiceDetails {
+  price?: string;
+  priceRange?: string;
+  priceCurrency?: string;
+  duration?: string;
+  category?: string;
+  // Defaults to the organization's area served
+  areaServed?: SitePlace[];
+  // One Offer per pricing tier; without these a single Offer is built from price/priceRange
+  offers?: ServiceOffer[];
 }
 
 /**
@@ -55,63 +84,68 @@ export function generateCanonicalUrl(pathname: string, siteUrl: string): string
   return `${siteUrl}${cleanPath}`;
 }
 
+/**
+ * Resolve a root-relative asset path against the site URL
+ */
+export function absoluteUrl(path: string, siteUrl: string): string {
+  return path.startsWith('/') ? `${siteUrl}${path}` : path;
+}
+
+/**
+ * The share image for a page: its own image, else its generated card. Noindex pages
+ * have no card and use the site default.
+ */
+export function pageImage(pageMeta: SEOMeta, pathname: string, siteConfig: SiteConfig): string {
+  return pageMeta.image || (pageMeta.noindex ? siteConfig.defaultImage : ogImagePath(pathname));
+}
+
 /**
  * Generate structured data for Organization
  */
-export function generateOrganizationSchema(siteConfig: SiteConfig) {
-  return {
-    '@context': 'https://schema.org',
+export function generateOrganizationSchema(siteConfig: SiteConfig): JsonLd<Organization> {
+  const { organization } = siteConfig;
+
+  return jsonLd({
     '@type': 'Organization',
     name: siteConfig.title,
+    legalName: organization.legalName,
     url: siteConfig.url,
     description: siteConfig.description,
-    logo: `${siteConfig.url}${siteConfig.logo}`,
-    foundingDate: '2024',
-    industry: 'Digital Marketing',
-    serviceArea: {
+    logo: absoluteUrl(siteConfig.logo, siteConfig.url),
+    foundingDate: organization.foundingDate,
+    email: organization.email,
+    telephone: organization.telephone,
+    address: { '@type': 'PostalAddress', ...organization.address },
+    knowsAbout: organization.knowsAbout,
+    areaServed: {
       '@type': 'GeoCircle',
       geoMidpoint: {
         '@type': 'GeoCoordinates',
-        latitude: 37.7749,
-        longitude: -122.4194
+        ...organization.geo
       },
-      geoRadius: 1000
+      geoRadius: organization.serviceRadius
     },
     hasOfferCatalog: {
       '@type': 'OfferCatalog',
       name: 'Digital Marketing Services',
-      itemListElement: [
-        {
-          '@type': 'Offer',
-          itemOffered: {
-            '@type': 'Service',
-            name: 'SEO Services',
-            description: 'Search Engine Optimization services to improve organic visibility'
-          }
-        },
-        {
-          '@type': 'Offer',
-          itemOffered: {
-            '@type': 'Service',
-            name: 'Web Design',
-            description: 'Custom website design and development services'
-          }
-        },
-        {
-          '@type': 'Offer',
-          itemOffered: {
-            '@type': 'Service',
-            name: 'Digital Marketing',
-            description: 'Comprehensive digital marketing campaigns and strategy'
-          }
+      itemListElement: siteConfig.services.map((service) => ({
+        '@type': 'Offer',
+        itemOffered: {
+          '@type': 'Service',
+          name: service.name,
+          description: service.description
         }
-      ]
+      }))
     },
-    sameAs: [
-      'https://twitter.com/TaitMediaSolutions',
-      'https://linkedin.com/company/tait-media-solutions'
-    ]
-  };
+    sameAs: siteConfig.social.map((profile) => profile.url)
+  });
+}
+
+/**
+ * Generate structured data for the site itself
+ */
+export function generateWebSiteSchema(siteConfig: SiteConfig): JsonLd<WebSite> {
+  return buildWebSite(siteConfig);
 }
 
 /**
@@ -121,37 +155,39 @@ export function generateArticleSchema(
   pageMeta: SEOMeta,
   siteConfig: SiteConfig,
   pathname: string
-) {
-  if (pageMeta.type !== 'article' || !pageMeta.publishedTime) {
+): JsonLd<Article> | null {
+  if (pageMeta.type !== 'article' || !pageMeta.title || !pageMeta.publishedTime) {
     return null;
   }
 
-  return {
-    '@context': 'https://schema.org',
+  return jsonLd({
     '@type': 'Article',
     headline: pageMeta.title,
     description: pageMeta.description,
-    image: pageMeta.image || siteConfig.defaultImage,
+    image: absoluteUrl(pageImage(pageMeta, pathname, siteConfig), siteConfig.url),
     author: {
       '@type': 'Organization',
-      name: siteConfig.author,
+      name: pageMeta.author || siteConfig.author,
       url: siteConfig.url
     },
     publisher: {
       '@type': 'Organization',
       name: siteConfig.title,
+      url: siteConfig.url,
       logo: {
         '@type': 'ImageObject',
-        url: `${siteConfig.url}${siteConfig.logo}`
+        url: absoluteUrl(siteConfig.logo, siteConfig.url)
       }
     },
     datePublished: pageMeta.publishedTime,
     dateModified: pageMeta.modifiedTime || pageMeta.publishedTime,
+    keywords: pageMeta.tags,
+    articleSection: pageMeta.section,
     mainEntityOfPage: {
       '@type': 'WebPage',
       '@id': generateCanonicalUrl(pathname, siteConfig.url)
     }
-  };
+  });
 }
 
 /**
@@ -161,85 +197,121 @@ export function generateServiceSchema(
   pageMeta: SEOMeta,
   siteConfig: SiteConfig,
   pathname: string,
-  serviceDetails?: {
-    price?: string;
-    priceRange?: string;
-    duration?: string;
-    category?: string;
-  }
-) {
-  if (pageMeta.type !== 'service') {
+  serviceDetails: ServiceDetails | undefined = pageMeta.service
+): JsonLd<Service> | null {
+  if (pageMeta.type !== 'service' || !pageMeta.title) {
     return null;
   }
 
-  return {
-    '@context': 'https://schema.org',
+  const url = generateCanonicalUrl(pathname, siteConfig.url);
+  const category = serviceDetails?.category || 'Digital Marketing';
+  const offers: ServiceOffer[] = serviceDetails?.offers ?? [
+    {
+      name: pageMeta.title,
+      price: serviceDetails?.price,
+      priceCurrency: serviceDetails?.priceCurrency,
+      priceRange: serviceDetails?.priceRange
+    }
+  ];
+
+  return jsonLd({
     '@type': 'Service',
     name: pageMeta.title,
     description: pageMeta.description,
+    serviceType: serviceDetails?.category,
+    url,
     provider: {
       '@type': 'Organization',
       name: siteConfig.title,
       url: siteConfig.url
     },
-    areaServed: {
-      '@type': 'Country',
-      name: 'United States'
-    },
+    areaServed: (serviceDetails?.areaServed ?? siteConfig.organization.areaServed).map(
+      (place): Place => ({ '@type': place.type, name: place.name })
+    ),
     hasOfferCatalog: {
       '@type': 'OfferCatalog',
       name: pageMeta.title,
-      itemListElement: [
-        {
+      itemListElement: offers.map(
+        (offer): Offer => ({
           '@type': 'Offer',
-          price: serviceDetails?.price,
-          priceRange: serviceDetails?.priceRange,
-          url: generateCanonicalUrl(pathname, siteConfig.url),
-          category: serviceDetails?.category || 'Digital Marketing'
-        }
-      ]
+          name: offer.name,
+          description: offer.description,
+          price: offer.price,
+          priceCurrency: offer.price ? offer.priceCurrency || 'USD' : undefined,
+          priceRange: offer.priceRange,
+          url,
+          category
+        })
+      )
     }
-  };
+  });
 }
 
 /**
  * Generate breadcrumb structured data
+ * The last crumb is the page's own title; levels above it use manifest or catalog names.
  */
 export function generateBreadcrumbSchema(
   pathname: string,
-  siteConfig: SiteConfig
-): object | null {
+  siteConfig: SiteConfig,
+  title?: string
+): JsonLd<BreadcrumbList> | null {
   const pathSegments = pathname.split('/').filter(segment => segment !== '');
   
   if (pathSegments.length === 0) {
     return null; // No breadcrumbs for homepage
   }
 
-  const breadcrumbItems = [
+  const breadcrumbItems: ListItem[] = [
     {
       '@type': 'ListItem',
       position: 1,
-      name: 'Home',
+      name: breadcrumbLabel('/'),
       item: siteConfig.url
     }
   ];
 
+  // Catalog names for the levels above the page, e.g. a service a deeper page sits under
+  const serviceNames = new Map(
+    siteConfig.services.map(service => [`/services/${service.slug}`, service.name])
+  );
+
   let currentPath = '';
   pathSegments.forEach((segment, index) => {
     currentPath += `/${segment}`;
+    const isLast = index === pathSegments.length - 1;
     breadcrumbItems.push({
       '@type': 'ListItem',
       position: index + 2,
-      name: segment.charAt(0).toUpperCase() + segment.slice(1).replace('-', ' '),
+      name: breadcrumbLabel(currentPath, (isLast ? title : undefined) ?? serviceNames.get(currentPath)),
       item: `${siteConfig.url}${currentPath}`
     });
   });
 
-  return {
-    '@context': 'https://schema.org',
+  return jsonLd({
     '@type': 'BreadcrumbList',
     itemListElement: breadcrumbItems
-  };
+  });
+}
+
+/**
+ * Every JSON-LD block that applies to a page, in the order <Seo> emits them
+ */
+export function generatePageSchemas(
+  pageMeta: SEOMeta,
+  siteConfig: SiteConfig,
+  pathname: string
+): JsonLd<SchemaType>[] {
+  const isHome = pathname === '/';
+
+  return [
+    isHome ? generateOrganizationSchema(siteConfig) : null,
+    isHome ? generateWebSiteSchema(siteConfig) : null,
+    generateArticleSchema(pageMeta, siteConfig, pathname),
+    generateServiceSchema(pageMeta, siteConfig, pathname),
+    generateBreadcrumbSchema(pathname, siteConfig, pageMeta.title),
+    ...(pageMeta.structuredData ?? [])
+  ].filter((schema) => schema !== null);
 }
 
 /**
@@ -295,6 +367,22 @@ export function sanitizeDescription(description: string): string {
   return truncated + '...';
 }
 
+export type ChangeFrequency = 'always' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'never';
+
+export interface SitemapImage {
+  loc: string;
+  title?: string;
+  caption?: string;
+}
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: string;
+  changefreq: ChangeFrequency;
+  priority: number;
+  images: SitemapImage[];
+}
+
 /**
  * Generate sitemap data for a page
  */
@@ -303,16 +391,34 @@ export function generateSitemapEntry(
   siteConfig: SiteConfig,
   pageMeta?: SEOMeta,
   priority: number = 0.8,
-  changefreq: 'daily' | 'weekly' | 'monthly' = 'weekly'
-) {
+  changefreq: ChangeFrequency = 'weekly',
+  images: SitemapImage[] = []
+): SitemapEntry {
   return {
     url: generateCanonicalUrl(pathname, siteConfig.url),
-    lastmod: pageMeta?.modifiedTime || new Date().toISOString(),
+    // Only report a lastmod we actually know - a build timestamp tells crawlers nothing
+    lastmod: pageMeta?.modifiedTime || pageMeta?.publishedTime,
     changefreq,
-    priority
+    priority,
+    images: images.map(image => ({
+      ...image,
+      loc: absoluteUrl(image.loc, siteConfig.url)
+    }))
   };
 }
 
+/**
+ * Escape text for use in XML element content and attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
 /**
  * Calculate estimated reading time for content
  */
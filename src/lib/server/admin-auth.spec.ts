@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { adminChallenge, adminCredentials, isAdmin, isAdminPath } from './admin-auth';
+
+const credentials = { user: 'admin', password: 'correct horse' };
+const basic = (value: string) => `Basic ${Buffer.from(value).toString('base64')}`;
+
+describe('adminCredentials', () => {
+	it('is undefined without a password', () => {
+		expect(adminCredentials({})).toBeUndefined();
+		expect(adminCredentials({ ADMIN_USER: 'ops', ADMIN_PASSWORD: '' })).toBeUndefined();
+	});
+
+	it('defaults the user name', () => {
+		expect(adminCredentials({ ADMIN_PASSWORD: 'secret' })).toEqual({ user: 'admin', password: 'secret' });
+		expect(adminCredentials({ ADMIN_USER: 'ops', ADMIN_PASSWORD: 'secret' })).toEqual({ user: 'ops', password: 'secret' });
+	});
+});
+
+describe('isAdminPath', () => {
+	it('covers /admin and everything under it', () => {
+		expect(isAdminPath('/admin')).toBe(true);
+		expect(isAdminPath('/admin/bookings')).toBe(true);
+		expect(isAdminPath('/admin/bookings/__data.json')).toBe(true);
+		expect(isAdminPath('/administration')).toBe(false);
+		expect(isAdminPath('/blog/admin')).toBe(false);
+	});
+});
+
+describe('isAdmin', () => {
+	it('accepts the configured credentials', () => {
+		expect(isAdmin(basic('admin:correct horse'), credentials)).toBe(true);
+		expect(isAdmin(`basic  ${Buffer.from('admin:correct horse').toString('base64')}`, credentials)).toBe(true);
+	});
+
+	it('keeps colons in the password', () => {
+		expect(isAdmin(basic('admin:a:b'), { user: 'admin', password: 'a:b' })).toBe(true);
+	});
+
+	it('rejects wrong or malformed credentials', () => {
+		expect(isAdmin(basic('admin:wrong'), credentials)).toBe(false);
+		expect(isAdmin(basic('root:correct horse'), credentials)).toBe(false);
+		expect(isAdmin(basic('admin'), credentials)).toBe(false);
+		expect(isAdmin('Bearer correct horse', credentials)).toBe(false);
+		expect(isAdmin(null, credentials)).toBe(false);
+	});
+
+	it('lets nobody in when no password is configured', () => {
+		expect(isAdmin(basic('admin:'), undefined)).toBe(false);
+	});
+});
+
+describe('adminChallenge', () => {
+	it('asks for basic auth and is never cached', () => {
+		const response = adminChallenge();
+
+		expect(response.status).toBe(401);
+		expect(response.headers.get('WWW-Authenticate')).toMatch(/^Basic realm="[^"]+"/);
+		expect(response.headers.get('Cache-Control')).toBe('no-store');
+	});
+});
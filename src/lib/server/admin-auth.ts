@@ -0,0 +1,63 @@
+/**
+ * HTTP basic auth for the /admin pages
+ * Credentials come from ADMIN_USER (default "admin") and ADMIN_PASSWORD. Without a password
+ * nobody is let in, so a deploy that forgets to set one fails closed rather than open.
+ */
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+export interface AdminCredentials {
+  user: string;
+  password: string;
+}
+
+export const ADMIN_REALM = 'Tait Media admin';
+
+/**
+ * Admin credentials from the environment, or undefined when no password is set
+ */
+export function adminCredentials(config: Record<string, string | undefined>): AdminCredentials | undefined {
+  if (!config.ADMIN_PASSWORD) return undefined;
+  return { user: config.ADMIN_USER || 'admin', password: config.ADMIN_PASSWORD };
+}
+
+export function isAdminPath(pathname: string): boolean {
+  return pathname === '/admin' || pathname.startsWith('/admin/');
+}
+
+// Compare digests so neither the length nor the content of the secret leaks through timing
+function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+/**
+ * Whether an Authorization header carries the admin credentials
+ */
+export function isAdmin(authorization: string | null, credentials: AdminCredentials | undefined): boolean {
+  if (!credentials || !authorization) return false;
+
+  const [scheme, encoded] = authorization.trim().split(/\s+/, 2);
+  if (scheme?.toLowerCase() !== 'basic' || !encoded) return false;
+
+  const decoded = Buffer.from(encoded, 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator === -1) return false;
+
+  // Check both halves so a wrong user name costs the same as a wrong password
+  const user = safeEqual(decoded.slice(0, separator), credentials.user);
+  const password = safeEqual(decoded.slice(separator + 1), credentials.password);
+  return user && password;
+}
+
+/**
+ * 401 response asking the browser for admin credentials
+ */
+export function adminChallenge(): Response {
+  return new Response('Authentication required', {
+    status: 401,
+    headers: {
+      'WWW-Authenticate': `Basic realm="${ADMIN_REALM}", charset="UTF-8"`,
+      'Cache-Control': 'no-store'
+    }
+  });
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { site } from '$lib/config/site';
+import { paginate, tagSlug, type Post } from '$lib/blog';
+import { validateSchema } from '$lib/seo/schema';
+import { generatePageSchemas } from '$lib/seo/utils';
+import {
+	BlogContentError,
+	getBlogPages,
+	getPosts,
+	getRelatedPosts,
+	isPublished,
+	parseFrontmatter,
+	renderPostBody
+} from './index';
+
+const post = (slug: string, date: string, tags: string[]): Post => ({
+	slug,
+	title: slug,
+	description: `About ${slug}`,
+	date,
+	tags,
+	draft: false,
+	readingTime: 1,
+	keywords: ''
+});
+
+describe('parseFrontmatter', () => {
+	it('normalizes YAML dates and defaults draft to false', () => {
+		const frontmatter = parseFrontmatter('launch', {
+			title: 'Launch',
+			description: 'We launched',
+			date: new Date('2025-09-01T00:00:00Z'),
+			tags: ['News']
+		});
+
+		expect(frontmatter).toMatchObject({ date: '2025-09-01', draft: false, tags: ['News'] });
+	});
+
+	it('rejects posts with missing or malformed fields', () => {
+		const valid = { title: 'Launch', description: 'We launched', date: '2025-09-01', tags: ['News'] };
+
+		expect(() => parseFrontmatter('launch', { ...valid, title: '' })).toThrow(BlogContentError);
+		expect(() => parseFrontmatter('launch', { ...valid, date: '09/01/2025' })).toThrow(/date must be YYYY-MM-DD/);
+		expect(() => parseFrontmatter('launch', { ...valid, tags: [] })).toThrow(/tags/);
+		expect(() => parseFrontmatter('launch', { ...valid, draft: 'yes' })).toThrow(/draft/);
+	});
+});
+
+describe('isPublished', () => {
+	const now = new Date('2025-09-10T12:00:00Z');
+
+	it('keeps drafts and scheduled posts out', () => {
+		expect(isPublished({ date: '2025-09-10', draft: false }, now)).toBe(true);
+		expect(isPublished({ date: '2025-09-11', draft: false }, now)).toBe(false);
+		expect(isPublished({ date: '2025-09-01', draft: true }, now)).toBe(false);
+	});
+
+	it('never ships unpublished posts when drafts are excluded', () => {
+		expect(getPosts(false).every((entry) => isPublished(entry))).toBe(true);
+	});
+});
+
+describe('getRelatedPosts', () => {
+	it('ranks by shared tags, then by date', () => {
+		const current = post('current', '2025-09-01', ['SEO', 'Performance']);
+		const posts = [
+			current,
+			post('one-tag-new', '2025-08-20', ['SEO']),
+			post('two-tags', '2025-06-01', ['seo', 'Performance']),
+			post('one-tag-old', '2025-05-01', ['Performance']),
+			post('unrelated', '2025-08-30', ['Strategy'])
+		];
+
+		expect(getRelatedPosts(current, posts).map(({ slug }) => slug)).toEqual(['two-tags', 'one-tag-new', 'one-tag-old']);
+	});
+});
+
+describe('blog pages', () => {
+	it('paginates with page 1 covering the first slice', () => {
+		const items = Array.from({ length: 13 }, (_, index) => index);
+
+		expect(paginate(items, 1)).toEqual({ items: [0, 1, 2, 3, 4, 5], page: 1, totalPages: 3 });
+		expect(paginate(items, 3).items).toEqual([12]);
+		expect(tagSlug('Core Web Vitals')).toBe('core-web-vitals');
+	});
+
+	it.each(getBlogPages().map((page) => [page.pathname, page] as const))('%s has valid structured data', (pathname, page) => {
+		const schemas = generatePageSchemas(page.meta, site, pathname);
+
+		if (pathname.startsWith('/blog/') && !pathname.startsWith('/blog/tag/')) {
+			expect(schemas.map((schema) => schema['@type'])).toContain('Article');
+		}
+		for (const schema of schemas) {
+			expect(validateSchema(schema)).toEqual([]);
+		}
+	});
+});
+
+describe('renderPostBody', () => {
+	it('renders the markdown to HTML on the server', async () => {
+		const [first] = getPosts(true);
+
+		expect(await renderPostBody(first)).toMatch(/<h2[^>]*>/);
+	});
+
+	it('404s for a post without a body', async () => {
+		await expect(renderPostBody(post('missing', '2025-01-01', []))).rejects.toMatchObject({ status: 404 });
+	});
+});
@@ -0,0 +1,291 @@
+/**
+ * Markdown blog content from src/content/blog
+ * Frontmatter is validated at import, so a malformed post fails the build
+ */
+
+import { error } from '@sveltejs/kit';
+import type { Component } from 'svelte';
+import { render } from 'svelte/server';
+import { dev } from '$app/environment';
+import { blogPagePath, paginate, POSTS_PER_PAGE, tagSlug, type Post, type PostFrontmatter } from '$lib/blog';
+import { sitemapOptions } from '$lib/config/routes';
+import type { PublicPage } from '$lib/seo/pages';
+import { calculateReadingTime, extractKeywords, type SEOMeta } from '$lib/seo/utils';
+
+const metadataModules = import.meta.glob<Record<string, unknown>>('/src/content/blog/*.md', {
+  eager: true,
+  import: 'metadata'
+});
+
+const sources = import.meta.glob<string>('/src/content/blog/*.md', {
+  eager: true,
+  query: '?raw',
+  import: 'default'
+});
+
+// Compiled by mdsvex and only ever rendered here, so unpublished posts never ship to the browser
+const bodies = import.meta.glob<{ default: Component }>('/src/content/blog/*.md');
+
+export class BlogContentError extends Error {
+  constructor(slug: string, problem: string) {
+    super(`Blog post "${slug}": ${problem}`);
+    this.name = 'BlogContentError';
+  }
+}
+
+export interface TagSummary {
+  tag: string;
+  slug: string;
+  count: number;
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+// YAML turns unquoted dates into Date objects, quoted ones stay strings
+function toDay(value: unknown): string | undefined {
+  if (value instanceof Date && !Number.isNaN(value.getTime())) {
+    return value.toISOString().slice(0, 10);
+  }
+  if (typeof value === 'string' && DAY.test(value) && !Number.isNaN(Date.parse(value))) {
+    return value;
+  }
+  return undefined;
+}
+
+function optionalString(slug: string, field: string, value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new BlogContentError(slug, `${field} must be a non-empty string`);
+  }
+  return value;
+}
+
+/**
+ * Validate a post's frontmatter and normalize dates to YYYY-MM-DD
+ */
+export function parseFrontmatter(slug: string, data: Record<string, unknown> | undefined): PostFrontmatter {
+  if (!data) {
+    throw new BlogContentError(slug, 'missing frontmatter');
+  }
+
+  const { title, description, date, updated, tags, section, image, author, draft } = data;
+
+  if (typeof title !== 'string' || title.trim() === '') {
+    throw new BlogContentError(slug, 'title is required');
+  }
+  if (typeof description !== 'string' || description.trim() === '') {
+    throw new BlogContentError(slug, 'description is required');
+  }
+
+  const publishedOn = toDay(date);
+  if (!publishedOn) {
+    throw new BlogContentError(slug, 'date must be YYYY-MM-DD');
+  }
+
+  const updatedOn = updated === undefined ? undefined : toDay(updated);
+  if (updated !== undefined && !updatedOn) {
+    throw new BlogContentError(slug, 'updated must be YYYY-MM-DD');
+  }
+
+  if (!Array.isArray(tags) || tags.length === 0 || !tags.every((tag) => typeof tag === 'string' && tagSlug(tag))) {
+    throw new BlogContentError(slug, 'tags must be a non-empty list of strings');
+  }
+
+  if (draft !== undefined && typeof draft !== 'boolean') {
+    throw new BlogContentError(slug, 'draft must be true or false');
+  }
+
+  return {
+    title,
+    description,
+    date: publishedOn,
+    updated: updatedOn,
+    tags,
+    section: optionalString(slug, 'section', section),
+    image: optionalString(slug, 'image', image),
+    author: optionalString(slug, 'author', author),
+    draft: draft ?? false
+  };
+}
+
+/**
+ * Drop the leading frontmatter block from a Markdown source
+ */
+export function stripFrontmatter(source: string): string {
+  return source.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, '');
+}
+
+function slugFromPath(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1, -'.md'.length);
+}
+
+const allPosts: Post[] = Object.entries(metadataModules)
+  .map(([path, metadata]) => {
+    const slug = slugFromPath(path);
+    const frontmatter = parseFrontmatter(slug, metadata);
+    const body = stripFrontmatter(sources[path] ?? '');
+
+    return {
+      ...frontmatter,
+      slug,
+      readingTime: calculateReadingTime(body),
+      keywords: extractKeywords(body, frontmatter.tags)
+    };
+  })
+  .sort((a, b) => b.date.localeCompare(a.date) || a.slug.localeCompare(b.slug));
+
+/**
+ * Whether a post is live: not a draft and its publish date has arrived
+ */
+export function isPublished(post: Pick<Post, 'draft' | 'date'>, now: Date = new Date()): boolean {
+  return !post.draft && post.date <= now.toISOString().slice(0, 10);
+}
+
+/**
+ * Posts newest first - drafts and scheduled posts only show up in dev
+ */
+export function getPosts(includeUnpublished: boolean = dev): Post[] {
+  return includeUnpublished ? allPosts : allPosts.filter((post) => isPublished(post));
+}
+
+export function getPost(slug: string): Post | undefined {
+  return getPosts().find((post) => post.slug === slug);
+}
+
+/**
+ * A post's body as HTML
+ */
+export async function renderPostBody(post: Post): Promise<string> {
+  const body = bodies[`/src/content/blog/${post.slug}.md`];
+  if (!body) error(404, 'Post not found');
+
+  const { default: Content } = await body();
+  return render(Content).body;
+}
+
+/**
+ * Every tag in use with its post count, most used first
+ */
+export function getTags(posts: Post[] = getPosts()): TagSummary[] {
+  const tags = new Map<string, TagSummary>();
+  for (const post of posts) {
+    for (const tag of post.tags) {
+      const slug = tagSlug(tag);
+      const summary = tags.get(slug) ?? { tag, slug, count: 0 };
+      summary.count += 1;
+      tags.set(slug, summary);
+    }
+  }
+  return [...tags.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+export function getPostsByTag(slug: string, posts: Post[] = getPosts()): Post[] {
+  return posts.filter((post) => post.tags.some((tag) => tagSlug(tag) === slug));
+}
+
+/**
+ * Posts sharing the most tags with the given one, newest first on ties
+ */
+export function getRelatedPosts(post: Post, posts: Post[] = getPosts(), limit: number = 3): Post[] {
+  const tags = new Set(post.tags.map(tagSlug));
+
+  return posts
+    .filter((candidate) => candidate.slug !== post.slug)
+    .map((candidate) => ({
+      candidate,
+      shared: candidate.tags.filter((tag) => tags.has(tagSlug(tag))).length
+    }))
+    .filter(({ shared }) => shared > 0)
+    .sort((a, b) => b.shared - a.shared || b.candidate.date.localeCompare(a.candidate.date))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * SEO metadata for a post page, feeding <Seo> and Article JSON-LD
+ */
+export function getPostMeta(post: Post): SEOMeta {
+  return {
+    title: post.title,
+    description: post.description,
+    keywords: post.keywords,
+    image: post.image,
+    type: 'article',
+    publishedTime: post.date,
+    modifiedTime: post.updated,
+    author: post.author,
+    section: post.section,
+    tags: post.tags
+  };
+}
+
+/**
+ * SEO metadata for a page of the blog listing
+ */
+export function getListingMeta(page: number, posts: Post[] = getPosts()): SEOMeta {
+  const newest = posts[0];
+  return {
+    title: page > 1 ? `Blog - Page ${page}` : 'Blog',
+    description: 'Insights on web design, SEO, performance and brand strategy from the Tait Media Solutions team.',
+    modifiedTime: newest?.updated ?? newest?.date
+  };
+}
+
+/**
+ * SEO metadata for a tag archive
+ */
+export function getTagMeta(tag: TagSummary): SEOMeta {
+  return {
+    title: `${tag.tag} Articles`,
+    description: `Every Tait Media Solutions article about ${tag.tag.toLowerCase()}.`
+  };
+}
+
+/**
+ * Page data for /blog and /blog/page/[page]
+ */
+export function loadBlogListing(page: number) {
+  const posts = getPosts();
+  const listing = paginate(posts, page, POSTS_PER_PAGE);
+
+  if (!Number.isInteger(page) || page < 1 || page > listing.totalPages) {
+    error(404, 'Page not found');
+  }
+
+  return {
+    ...listing,
+    tags: getTags(posts),
+    meta: getListingMeta(page, posts)
+  };
+}
+
+/**
+ * Blog listing, post and tag pages for the sitemap
+ */
+export function getBlogPages(posts: Post[] = getPosts()): PublicPage[] {
+  const listing: PublicPage[] = Array.from(
+    { length: paginate(posts, 1, POSTS_PER_PAGE).totalPages },
+    (_, index) => ({
+      pathname: blogPagePath(index + 1),
+      meta: getListingMeta(index + 1, posts),
+      ...(index === 0 ? sitemapOptions('/blog') : { priority: 0.4, changefreq: 'weekly' as const })
+    })
+  );
+
+  const postPages: PublicPage[] = posts.map((post) => ({
+    pathname: `/blog/${post.slug}`,
+    meta: getPostMeta(post),
+    priority: 0.7,
+    changefreq: 'monthly',
+    images: post.image ? [{ loc: post.image, title: post.title }] : []
+  }));
+
+  const tagPages: PublicPage[] = getTags(posts).map((tag) => ({
+    pathname: `/blog/tag/${tag.slug}`,
+    meta: getTagMeta(tag),
+    priority: 0.4,
+    changefreq: 'weekly'
+  }));
+
+  return [...listing, ...postPages, ...tagPages];
+}
@@ -0,0 +1,133 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { BookingConfig } from '$lib/booking';
+import { KVConfigError, type AtomicKVNamespace } from '$lib/server/kv';
+import type { KVNamespaceLike } from '$lib/server/vitals/store';
+import {
+	bookDiscoveryCall,
+	FileBookingStore,
+	getBookingStore,
+	KVBookingStore,
+	SlotUnavailableError,
+	upcomingBookings
+} from './index';
+
+const config: BookingConfig = {
+	timeZone: 'America/Los_Angeles',
+	slotMinutes: 30,
+	bufferMinutes: 15,
+	minNoticeHours: 0,
+	horizonDays: 3,
+	hours: [{ day: 1, open: '09:00', close: '17:00' }],
+	blackoutDates: []
+};
+
+const now = new Date('2025-09-01T15:00:00Z');
+const visitor = (name: string, start: string) => ({
+	start,
+	name,
+	email: `${name.toLowerCase()}@example.com`,
+	company: '',
+	notes: '',
+	timeZone: 'Europe/London'
+});
+
+// An in-memory Redis stand-in; every call yields first, as a network round trip would
+function memoryKV(): AtomicKVNamespace & { data: Map<string, string> } {
+	const data = new Map<string, string>();
+	const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+	return {
+		data,
+		async get(key) {
+			await tick();
+			return data.get(key) ?? null;
+		},
+		async put(key, value) {
+			await tick();
+			data.set(key, value);
+		},
+		async putIfAbsent(key, value) {
+			await tick();
+			if (data.has(key)) return false;
+			data.set(key, value);
+			return true;
+		},
+		async delete(key) {
+			await tick();
+			data.delete(key);
+		},
+		async list({ prefix }) {
+			await tick();
+			return { keys: [...data.keys()].filter((name) => name.startsWith(prefix)).map((name) => ({ name })), list_complete: true };
+		}
+	};
+}
+
+describe('KVBookingStore', () => {
+	it('gives a slot to exactly one of two instances racing for it', async () => {
+		const kv = memoryKV();
+		const results = await Promise.allSettled([
+			bookDiscoveryCall(new KVBookingStore(kv), visitor('Ada', '2025-09-01T17:00:00.000Z'), { config, now }),
+			bookDiscoveryCall(new KVBookingStore(kv), visitor('Grace', '2025-09-01T17:30:00.000Z'), { config, now })
+		]);
+
+		expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+		expect(await new KVBookingStore(kv).list()).toHaveLength(1);
+		expect(kv.data.has('booking-lock')).toBe(false);
+	});
+
+	it('is used for a configured Redis and refuses a KV that cannot lock', () => {
+		expect(getBookingStore({ env: { BOOKINGS_KV: memoryKV() } })).toBeInstanceOf(KVBookingStore);
+		expect(() => getBookingStore({ env: { BOOKINGS_KV: {} as KVNamespaceLike } })).toThrow(KVConfigError);
+	});
+});
+
+describe('bookDiscoveryCall', () => {
+	let dir: string;
+	let store: FileBookingStore;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), 'bookings-'));
+		store = new FileBookingStore(join(dir, 'bookings.jsonl'));
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it('gives a slot to exactly one of two simultaneous requests', async () => {
+		const results = await Promise.allSettled([
+			bookDiscoveryCall(store, visitor('Ada', '2025-09-01T17:00:00.000Z'), { config, now }),
+			bookDiscoveryCall(store, visitor('Grace', '2025-09-01T17:00:00.000Z'), { config, now })
+		]);
+
+		expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+		expect(results.find((result) => result.status === 'rejected')?.reason).toBeInstanceOf(SlotUnavailableError);
+		expect(await store.list()).toHaveLength(1);
+	});
+
+	it('refuses slots inside the buffer or outside business hours', async () => {
+		await bookDiscoveryCall(store, visitor('Ada', '2025-09-01T17:00:00.000Z'), { config, now });
+
+		await expect(bookDiscoveryCall(store, visitor('Grace', '2025-09-01T17:30:00.000Z'), { config, now })).rejects.toThrow(
+			SlotUnavailableError
+		);
+		await expect(bookDiscoveryCall(store, visitor('Grace', '2025-09-02T17:00:00.000Z'), { config, now })).rejects.toThrow(
+			SlotUnavailableError
+		);
+
+		const second = await bookDiscoveryCall(store, visitor('Grace', '2025-09-01T18:00:00.000Z'), { config, now });
+		expect(second).toMatchObject({ end: '2025-09-01T18:30:00.000Z', timeZone: 'Europe/London' });
+	});
+
+	it('lists upcoming bookings soonest first', async () => {
+		await bookDiscoveryCall(store, visitor('Grace', '2025-09-01T20:00:00.000Z'), { config, now });
+		await bookDiscoveryCall(store, visitor('Ada', '2025-09-01T17:00:00.000Z'), { config, now });
+
+		const bookings = await store.list();
+		expect(upcomingBookings(bookings, now).map((booking) => booking.name)).toEqual(['Ada', 'Grace']);
+		expect(upcomingBookings(bookings, new Date('2025-09-01T19:00:00Z')).map((booking) => booking.name)).toEqual(['Grace']);
+	});
+});
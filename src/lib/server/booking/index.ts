@@ -0,0 +1,216 @@
+/**
+ * Booked discovery calls
+ * Reservations are checked and written one at a time, so two visitors racing for the
+ * same slot cannot both get it - within one process for the file store, across every
+ * instance for the KV store
+ */
+
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { env } from '$env/dynamic/private';
+import { site } from '$lib/config/site';
+import { isSlotAvailable, type BookingConfig, type BookingForm, type CalendarInvite, type TimeRange } from '$lib/booking';
+import { getKVNamespace, isAtomicKV, KVConfigError, type AtomicKVNamespace } from '$lib/server/kv';
+import { getAllValues } from '$lib/server/vitals/store';
+
+export interface Booking extends TimeRange {
+  id: string;
+  name: string;
+  email: string;
+  company: string;
+  notes: string;
+  // The visitor's zone when they booked, falling back to the business zone
+  timeZone: string;
+  createdAt: string;
+}
+
+export interface BookingStore {
+  list(): Promise<Booking[]>;
+  /**
+   * Add a booking unless isTaken reports a conflict with what is already stored.
+   * Calls never interleave, so the check and the write see the same bookings.
+   */
+  reserve(booking: Booking, isTaken: (existing: Booking[]) => boolean): Promise<boolean>;
+}
+
+export class SlotUnavailableError extends Error {
+  constructor(public start: string) {
+    super(`The slot at ${start} is no longer available`);
+    this.name = 'SlotUnavailableError';
+  }
+}
+
+/**
+ * Stores bookings as JSON lines in a local file
+ */
+export class FileBookingStore implements BookingStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  async list(): Promise<Booking[]> {
+    let contents: string;
+    try {
+      contents = await readFile(this.path, 'utf8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw e;
+    }
+
+    return contents
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .map((line) => JSON.parse(line) as Booking);
+  }
+
+  reserve(booking: Booking, isTaken: (existing: Booking[]) => boolean): Promise<boolean> {
+    const result = this.queue.then(async () => {
+      if (isTaken(await this.list())) return false;
+
+      await mkdir(dirname(this.path), { recursive: true });
+      await appendFile(this.path, JSON.stringify(booking) + '\n');
+      return true;
+    });
+    this.queue = result.catch(() => {});
+    return result;
+  }
+}
+
+export class BookingLockTimeoutError extends Error {
+  constructor() {
+    super('Timed out waiting for the booking lock');
+    this.name = 'BookingLockTimeoutError';
+  }
+}
+
+// Held only while one reservation checks and writes, so a crashed instance frees it quickly
+const LOCK_KEY = 'booking-lock';
+const LOCK_TTL_SECONDS = 10;
+const LOCK_ATTEMPTS = 50;
+const LOCK_RETRY_MS = 100;
+
+/**
+ * Stores each booking under its own key
+ * A buffer around every call means neighbouring slots conflict too, so a reservation takes
+ * one lock (SET NX) for the whole check-and-write rather than a key per slot.
+ */
+export class KVBookingStore implements BookingStore {
+  constructor(
+    private kv: AtomicKVNamespace,
+    private retentionDays: number = 365
+  ) {}
+
+  async list(): Promise<Booking[]> {
+    const keys: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.kv.list({ prefix: 'booking:', cursor });
+      keys.push(...page.keys.map(({ name }) => name));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    return (await getAllValues(this.kv, keys))
+      .filter((value): value is string => value !== null)
+      .map((value) => JSON.parse(value) as Booking);
+  }
+
+  async reserve(booking: Booking, isTaken: (existing: Booking[]) => boolean): Promise<boolean> {
+    for (let attempt = 0; attempt < LOCK_ATTEMPTS; attempt++) {
+      if (await this.kv.putIfAbsent(LOCK_KEY, booking.id, { expirationTtl: LOCK_TTL_SECONDS })) {
+        try {
+          if (isTaken(await this.list())) return false;
+
+          await this.kv.put(`booking:${booking.id}`, JSON.stringify(booking), {
+            expirationTtl: this.retentionDays * 24 * 60 * 60
+          });
+          return true;
+        } finally {
+          await this.kv.delete(LOCK_KEY);
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+    throw new BookingLockTimeoutError();
+  }
+}
+
+let fileStore: FileBookingStore | undefined;
+
+/**
+ * Pick the booking store for this request - a KV namespace when deployed (see getKVNamespace),
+ * a local JSON lines file otherwise. The KV must support atomic writes to hold the reserve lock.
+ */
+export function getBookingStore(platform?: App.Platform): BookingStore {
+  const kv = getKVNamespace('BOOKINGS_KV', platform);
+  if (kv) {
+    if (!isAtomicKV(kv)) {
+      throw new KVConfigError('BOOKINGS_KV cannot write atomically, so it cannot stop double bookings; use Redis');
+    }
+    return new KVBookingStore(kv);
+  }
+
+  fileStore ??= new FileBookingStore(env.BOOKINGS_FILE || '.data/bookings.jsonl');
+  return fileStore;
+}
+
+/**
+ * Reserve the slot a visitor picked, throwing SlotUnavailableError when it was
+ * taken, blacked out or is outside the bookable hours
+ */
+export async function bookDiscoveryCall(
+  store: BookingStore,
+  form: BookingForm,
+  options: { config: BookingConfig; now?: Date }
+): Promise<Booking> {
+  const now = options.now ?? new Date();
+  const start = new Date(form.start);
+  const booking: Booking = {
+    id: crypto.randomUUID(),
+    start: start.toISOString(),
+    end: new Date(start.getTime() + options.config.slotMinutes * 60 * 1000).toISOString(),
+    name: form.name,
+    email: form.email,
+    company: form.company,
+    notes: form.notes,
+    timeZone: form.timeZone || options.config.timeZone,
+    createdAt: now.toISOString()
+  };
+
+  const reserved = await store.reserve(
+    booking,
+    (existing) => !isSlotAvailable(options.config, existing, booking.start, now)
+  );
+  if (!reserved) {
+    throw new SlotUnavailableError(booking.start);
+  }
+  return booking;
+}
+
+/**
+ * Bookings that have not ended yet, soonest first
+ */
+export function upcomingBookings(bookings: Booking[], now: Date = new Date()): Booking[] {
+  return bookings
+    .filter((booking) => Date.parse(booking.end) > now.getTime())
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
+
+export function bookingInvite(booking: Booking): CalendarInvite {
+  const hostname = new URL(site.url).hostname;
+
+  return {
+    uid: `${booking.id}@${hostname}`,
+    start: booking.start,
+    end: booking.end,
+    stamp: booking.createdAt,
+    summary: `Discovery call with ${site.title}`,
+    description: [
+      `A ${Math.round((Date.parse(booking.end) - Date.parse(booking.start)) / 60000)}-minute call to talk through your goals and how we can help.`,
+      ...(booking.notes ? ['', `Your notes: ${booking.notes}`] : [])
+    ].join('\n'),
+    url: `${site.url}/book/${booking.id}`,
+    organizer: { name: site.title, email: site.organization.email ?? `hello@${hostname}` },
+    attendee: { name: booking.name, email: booking.email }
+  };
+}
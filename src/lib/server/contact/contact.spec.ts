@@ -0,0 +1,163 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { createServer, type Server } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { site } from '$lib/config/site';
+import { contactSchema } from '$lib/contact/schema';
+import {
+	composeContactEmail,
+	detectSpam,
+	FileContactStore,
+	FileMailTransport,
+	MIN_FILL_MS,
+	receiveContactSubmission,
+	signFormStart,
+	SmtpMailTransport,
+	type ContactSubmission,
+	type MailTransport
+} from './index';
+
+const form = {
+	name: 'Ada Lovelace',
+	email: 'ada@example.com',
+	company: 'Analytical Engines',
+	service: 'seo',
+	message: 'We would like help ranking for engine-related searches.',
+	website: '',
+	startedAt: ''
+};
+
+/**
+ * Just enough of an SMTP server to accept one conversation and record the DATA it was sent
+ */
+function startSmtpStandIn(): Promise<{ server: Server; port: number; messages: string[] }> {
+	const messages: string[] = [];
+	const server = createServer((socket) => {
+		let buffer = '';
+		let inData = false;
+		socket.write('220 stand-in ESMTP\r\n');
+		socket.on('data', (chunk) => {
+			buffer += chunk.toString();
+			let end: number;
+			while ((end = inData ? buffer.indexOf('\r\n.\r\n') : buffer.indexOf('\r\n')) !== -1) {
+				if (inData) {
+					messages.push(buffer.slice(0, end));
+					buffer = buffer.slice(end + 5);
+					inData = false;
+					socket.write('250 queued\r\n');
+					continue;
+				}
+				const line = buffer.slice(0, end);
+				buffer = buffer.slice(end + 2);
+				const command = line.slice(0, 4).toUpperCase();
+				if (command === 'EHLO') socket.write('250-stand-in\r\n250 8BITMIME\r\n');
+				else if (command === 'DATA') {
+					inData = true;
+					socket.write('354 go ahead\r\n');
+				} else if (command === 'QUIT') socket.end('221 bye\r\n');
+				else socket.write('250 ok\r\n');
+			}
+		});
+	});
+
+	return new Promise((resolve) => {
+		server.listen(0, '127.0.0.1', () => {
+			const address = server.address();
+			resolve({ server, port: typeof address === 'object' && address ? address.port : 0, messages });
+		});
+	});
+}
+
+describe('contact schema', () => {
+	it('accepts a complete form and rejects bad email and short messages', () => {
+		expect(contactSchema.safeParse(form).success).toBe(true);
+
+		const result = contactSchema.safeParse({ ...form, email: 'ada', message: 'Hi', service: 'astrology' });
+		expect(result.success).toBe(false);
+		expect(result.error?.issues.map((issue) => issue.path[0])).toEqual(['email', 'service', 'message']);
+	});
+});
+
+describe('detectSpam', () => {
+	const now = 1_700_000_000_000;
+	const secret = 'test secret';
+	const startedAt = (time: number) => signFormStart(secret, time);
+
+	it('flags a filled honeypot, instant submissions and stale forms', () => {
+		expect(detectSpam({ website: 'https://spam.example', startedAt: startedAt(now - 60_000) }, secret, now)).toBe('honeypot');
+		expect(detectSpam({ website: '', startedAt: startedAt(now - MIN_FILL_MS + 1) }, secret, now)).toBe('too_fast');
+		expect(detectSpam({ website: '', startedAt: startedAt(1) }, secret, now)).toBe('expired');
+	});
+
+	it('flags render times the server did not sign', () => {
+		const forged = startedAt(now - 45_000).replace(/^\d+/, String(now - 60_000));
+
+		expect(detectSpam({ website: '', startedAt: String(now - 45_000) }, secret, now)).toBe('forged');
+		expect(detectSpam({ website: '', startedAt: forged }, secret, now)).toBe('forged');
+		expect(detectSpam({ website: '', startedAt: signFormStart('other secret', now - 45_000) }, secret, now)).toBe('forged');
+		expect(detectSpam({ website: '', startedAt: '' }, secret, now)).toBe('forged');
+	});
+
+	it('lets a person through', () => {
+		expect(detectSpam({ website: '', startedAt: startedAt(now - 45_000) }, secret, now)).toBeNull();
+	});
+});
+
+describe('receiveContactSubmission', () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), 'contact-'));
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+		vi.restoreAllMocks();
+	});
+
+	it('stores the submission and writes the notification to disk', async () => {
+		const store = new FileContactStore(join(dir, 'contact.jsonl'));
+		const transport = new FileMailTransport(join(dir, 'mail'), () => {});
+
+		const submission = await receiveContactSubmission(form, { store, transport, now: new Date('2025-09-01T12:00:00Z') });
+
+		const stored = JSON.parse(await readFile(join(dir, 'contact.jsonl'), 'utf8'));
+		expect(stored).toEqual(submission);
+		expect(stored).not.toHaveProperty('website');
+
+		const [file] = await readdir(join(dir, 'mail'));
+		const email = await readFile(join(dir, 'mail', file), 'utf8');
+		expect(email).toContain('Reply-To: "Ada Lovelace" <ada@example.com>');
+		expect(email).toContain('Interested in: SEO Services');
+	});
+
+	it('keeps the submission when delivery fails', async () => {
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		const store = new FileContactStore(join(dir, 'contact.jsonl'));
+		const transport: MailTransport = { send: () => Promise.reject(new Error('SMTP down')) };
+
+		await expect(receiveContactSubmission(form, { store, transport })).resolves.toMatchObject({ email: form.email });
+		expect(await readFile(join(dir, 'contact.jsonl'), 'utf8')).toContain(form.email);
+	});
+});
+
+describe('SmtpMailTransport', () => {
+	it('delivers through an SMTP server', async () => {
+		const { server, port, messages } = await startSmtpStandIn();
+		const submission: ContactSubmission = { ...form, id: 'abc', receivedAt: '2025-09-01T12:00:00.000Z' };
+
+		try {
+			await new SmtpMailTransport({ host: '127.0.0.1', port }).send(
+				composeContactEmail(submission, site, { from: 'site@taitmedia.com', to: 'team@taitmedia.com' })
+			);
+		} finally {
+			server.close();
+		}
+
+		expect(messages).toHaveLength(1);
+		expect(messages[0]).toContain('To: team@taitmedia.com');
+		expect(messages[0]).toContain('Subject: New enquiry from Ada Lovelace');
+		expect(messages[0]).toContain(form.message);
+	});
+});
@@ -0,0 +1,101 @@
+import { randomBytes } from 'node:crypto';
+import { env } from '$env/dynamic/private';
+import { getKVNamespace } from '$lib/server/kv';
+import { site } from '$lib/config/site';
+import type { ContactForm } from '$lib/contact/schema';
+import { FileContactStore, KVContactStore, type ContactStore, type ContactSubmission } from './store';
+import { composeContactEmail, FileMailTransport, SmtpMailTransport, type MailTransport } from './transport';
+
+export * from './spam';
+export * from './store';
+export * from './transport';
+
+let fileStore: FileContactStore | undefined;
+let transport: MailTransport | undefined;
+let formSecret: string | undefined;
+
+/**
+ * Pick the submission store for this request - a KV namespace when deployed (see getKVNamespace),
+ * a local JSON lines file otherwise
+ */
+export function getContactStore(platform?: App.Platform): ContactStore {
+  const kv = getKVNamespace('CONTACT_KV', platform);
+  if (kv) {
+    return new KVContactStore(kv);
+  }
+
+  fileStore ??= new FileContactStore(env.CONTACT_SUBMISSIONS_FILE || '.data/contact.jsonl');
+  return fileStore;
+}
+
+/**
+ * Key for signing the contact form's render time - CONTACT_FORM_SECRET, or a key made up per
+ * process when running locally. Deployed instances must share one, so Vercel requires it.
+ */
+export function getFormSecret(): string {
+  if (env.CONTACT_FORM_SECRET) return env.CONTACT_FORM_SECRET;
+  if (env.VERCEL) {
+    throw new Error('CONTACT_FORM_SECRET must be set to sign contact forms');
+  }
+  formSecret ??= randomBytes(32).toString('hex');
+  return formSecret;
+}
+
+/**
+ * SMTP when SMTP_HOST is set, .eml files under .data/mail otherwise
+ */
+export function getMailTransport(): MailTransport {
+  if (transport) return transport;
+
+  if (env.SMTP_HOST) {
+    transport = new SmtpMailTransport({
+      host: env.SMTP_HOST,
+      port: Number(env.SMTP_PORT || 587),
+      secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : undefined,
+      auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS ?? '' } : undefined
+    });
+  } else {
+    transport = new FileMailTransport(env.CONTACT_MAIL_DIR || '.data/mail');
+  }
+  return transport;
+}
+
+/**
+ * Who team notifications go to and come from - CONTACT_TO and CONTACT_FROM, else the site's own addresses
+ */
+export function notificationAddresses(): { from: string; to: string } {
+  const hostname = new URL(site.url).hostname;
+  return {
+    to: env.CONTACT_TO || site.organization.email || `hello@${hostname}`,
+    from: env.CONTACT_FROM || `${site.title} <no-reply@${hostname}>`
+  };
+}
+
+/**
+ * Persist a submission, then notify the team. The stored copy is the source of truth,
+ * so a delivery failure is logged rather than shown to the sender.
+ */
+export async function receiveContactSubmission(
+  form: ContactForm,
+  options: { store: ContactStore; transport: MailTransport; now?: Date }
+): Promise<ContactSubmission> {
+  const submission: ContactSubmission = {
+    id: crypto.randomUUID(),
+    name: form.name,
+    email: form.email,
+    company: form.company,
+    service: form.service,
+    message: form.message,
+    receivedAt: (options.now ?? new Date()).toISOString()
+  };
+
+  await options.store.add(submission);
+
+  try {
+    await options.transport.send(composeContactEmail(submission, site, notificationAddresses()));
+  } catch (e) {
+    console.error(`[contact] Could not deliver submission ${submission.id}`, e);
+  }
+
+  return submission;
+}
@@ -0,0 +1,59 @@
+/**
+ * Cheap bot checks for the contact form
+ * Bots fill every field and submit instantly; people leave the hidden field empty and take a few seconds.
+ * The render time travels with the form signed, so a bot cannot simply post an old timestamp.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { ContactForm } from '$lib/contact/schema';
+
+// Faster than this and nobody read the form
+export const MIN_FILL_MS = 3000;
+// Older than this and the form was scraped, not filled in
+export const MAX_FORM_AGE_MS = 24 * 60 * 60 * 1000;
+
+export type SpamReason = 'honeypot' | 'forged' | 'too_fast' | 'expired';
+
+function sign(secret: string, startedAt: number): string {
+  return createHmac('sha256', secret).update(`contact:${startedAt}`).digest('base64url');
+}
+
+/**
+ * Token recording when the form was rendered, as "<epoch ms>.<HMAC>"
+ */
+export function signFormStart(secret: string, now: number = Date.now()): string {
+  return `${now}.${sign(secret, now)}`;
+}
+
+/**
+ * The render time a token was signed with, or null when it was not signed with secret
+ */
+export function verifyFormStart(token: string, secret: string): number | null {
+  const match = /^(\d{1,15})\.([\w-]+)$/.exec(token);
+  if (!match) return null;
+
+  const startedAt = Number(match[1]);
+  const expected = Buffer.from(sign(secret, startedAt));
+  const actual = Buffer.from(match[2]);
+  return actual.length === expected.length && timingSafeEqual(actual, expected) ? startedAt : null;
+}
+
+/**
+ * Why a submission looks automated, or null when it passes
+ */
+export function detectSpam(
+  form: Pick<ContactForm, 'website' | 'startedAt'>,
+  secret: string,
+  now: number = Date.now()
+): SpamReason | null {
+  if (form.website.trim() !== '') return 'honeypot';
+
+  const startedAt = verifyFormStart(form.startedAt, secret);
+  if (startedAt === null) return 'forged';
+
+  const elapsed = now - startedAt;
+  if (elapsed < MIN_FILL_MS) return 'too_fast';
+  if (elapsed > MAX_FORM_AGE_MS) return 'expired';
+
+  return null;
+}
@@ -0,0 +1,51 @@
+/**
+ * Storage for contact form submissions
+ * Every accepted submission is kept, so an enquiry is not lost when mail delivery fails
+ */
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { KVNamespaceLike } from '$lib/server/vitals/store';
+
+export interface ContactSubmission {
+  id: string;
+  name: string;
+  email: string;
+  company: string;
+  service: string;
+  message: string;
+  receivedAt: string;
+}
+
+export interface ContactStore {
+  add(submission: ContactSubmission): Promise<void>;
+}
+
+/**
+ * Appends submissions as JSON lines in a local file
+ */
+export class FileContactStore implements ContactStore {
+  constructor(private path: string) {}
+
+  async add(submission: ContactSubmission): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, JSON.stringify(submission) + '\n');
+  }
+}
+
+/**
+ * Writes each submission under a per-day key prefix
+ */
+export class KVContactStore implements ContactStore {
+  constructor(
+    private kv: KVNamespaceLike,
+    private retentionDays: number = 365
+  ) {}
+
+  async add(submission: ContactSubmission): Promise<void> {
+    const key = `contact:${submission.receivedAt.slice(0, 10)}:${submission.id}`;
+    await this.kv.put(key, JSON.stringify(submission), {
+      expirationTtl: this.retentionDays * 24 * 60 * 60
+    });
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Mail transports for contact form notifications
+ * Development writes messages to disk and the console; production relays through any SMTP server
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { SiteConfig } from '$lib/config/site';
+import type { ContactSubmission } from './store';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  replyTo?: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Writes each message to a .eml file and logs where it went
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(
+    private dir: string,
+    private log: (line: string) => void = console.info
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const path = join(this.dir, `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.eml`);
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      ...(message.replyTo ? [`Reply-To: ${message.replyTo}`] : []),
+      `Subject: ${message.subject}`
+    ];
+    await writeFile(path, `${headers.join('\r\n')}\r\n\r\n${message.text}\r\n`);
+    this.log(`[contact] "${message.subject}" to ${message.to} written to ${path}`);
+  }
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // true for implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  secure?: boolean;
+  auth?: { user: string; pass: string };
+}
+
+/**
+ * Relays messages through an SMTP server
+ */
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(options: SmtpOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure ?? options.port === 465,
+      auth: options.auth
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * The notification the team receives for a submission; replies go straight to the sender
+ */
+export function composeContactEmail(
+  submission: ContactSubmission,
+  siteConfig: SiteConfig,
+  addresses: { from: string; to: string }
+): MailMessage {
+  const service = siteConfig.services.find(({ slug }) => slug === submission.service)?.name;
+  const lines = [
+    `Name: ${submission.name}`,
+    `Email: ${submission.email}`,
+    ...(submission.company ? [`Company: ${submission.company}`] : []),
+    ...(service ? [`Interested in: ${service}`] : []),
+    `Received: ${submission.receivedAt}`,
+    '',
+    submission.message
+  ];
+
+  return {
+    ...addresses,
+    replyTo: `"${submission.name.replace(/["\\\r\n]/g, '')}" <${submission.email}>`,
+    subject: `New enquiry from ${submission.name.replace(/[\r\n]/g, ' ')} - ${siteConfig.title}`,
+    text: lines.join('\n')
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Storage and validation for events posted by the "api" analytics adapter
+ */
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { env } from '$env/dynamic/private';
+import { getKVNamespace } from '$lib/server/kv';
+import { ANALYTICS_EVENT_NAMES, type AnalyticsEventName, type AnalyticsProps } from '$lib/analytics/track';
+import type { KVNamespaceLike } from '$lib/server/vitals/store';
+import { normalizeRoute } from '$lib/server/vitals/validate';
+
+export const MAX_EVENT_BYTES = 4 * 1024;
+const MAX_PROPS = 10;
+const MAX_PROP_LENGTH = 200;
+
+export interface StoredEvent {
+  event: AnalyticsEventName;
+  props: AnalyticsProps;
+  route: string;
+  timestamp: number;
+}
+
+export interface EventStore {
+  add(event: StoredEvent): Promise<void>;
+}
+
+export class EventPayloadError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 413 = 400
+  ) {
+    super(message);
+    this.name = 'EventPayloadError';
+  }
+}
+
+/**
+ * Validate an event posted by createApiAdapter
+ */
+export function parseEventPayload(raw: string): StoredEvent {
+  if (new TextEncoder().encode(raw).length > MAX_EVENT_BYTES) {
+    throw new EventPayloadError('Payload too large', 413);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new EventPayloadError('Body is not valid JSON');
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new EventPayloadError('Body must be a JSON object');
+  }
+
+  const { event, props, url, timestamp } = body as Record<string, unknown>;
+
+  if (!ANALYTICS_EVENT_NAMES.includes(event as AnalyticsEventName)) {
+    throw new EventPayloadError('Unknown event');
+  }
+  if (typeof url !== 'string' || url.length > 2048) {
+    throw new EventPayloadError('Missing or invalid url');
+  }
+  if (typeof timestamp !== 'number' || !Number.isFinite(timestamp) || timestamp <= 0) {
+    throw new EventPayloadError('Missing or invalid timestamp');
+  }
+  if (typeof props !== 'object' || props === null || Array.isArray(props)) {
+    throw new EventPayloadError('Missing or invalid props');
+  }
+
+  const entries = Object.entries(props);
+  if (
+    entries.length > MAX_PROPS ||
+    !entries.every(([, value]) =>
+      typeof value === 'boolean' ||
+      (typeof value === 'number' && Number.isFinite(value)) ||
+      (typeof value === 'string' && value.length <= MAX_PROP_LENGTH)
+    )
+  ) {
+    throw new EventPayloadError('Invalid props');
+  }
+
+  let route: string;
+  try {
+    route = normalizeRoute(url);
+  } catch {
+    throw new EventPayloadError('Missing or invalid url');
+  }
+
+  return {
+    event: event as AnalyticsEventName,
+    props: props as AnalyticsProps,
+    route,
+    timestamp
+  };
+}
+
+/**
+ * Appends events as JSON lines in a local file
+ */
+export class FileEventStore implements EventStore {
+  constructor(private path: string) {}
+
+  async add(event: StoredEvent): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, JSON.stringify(event) + '\n');
+  }
+}
+
+/**
+ * Writes each event under a per-day key prefix
+ */
+export class KVEventStore implements EventStore {
+  constructor(
+    private kv: KVNamespaceLike,
+    private retentionDays: number = 90
+  ) {}
+
+  async add(event: StoredEvent): Promise<void> {
+    const day = new Date(event.timestamp).toISOString().slice(0, 10);
+    const key = `events:${day}:${event.timestamp}-${Math.random().toString(36).slice(2, 10)}`;
+    await this.kv.put(key, JSON.stringify(event), {
+      expirationTtl: this.retentionDays * 24 * 60 * 60
+    });
+  }
+}
+
+let fileStore: FileEventStore | undefined;
+
+/**
+ * Pick the event store for this request - a KV namespace when deployed (see getKVNamespace),
+ * a local JSON lines file otherwise
+ */
+export function getEventStore(platform?: App.Platform): EventStore {
+  const kv = getKVNamespace('ANALYTICS_EVENTS_KV', platform);
+  if (kv) {
+    return new KVEventStore(kv);
+  }
+
+  fileStore ??= new FileEventStore(env.ANALYTICS_EVENTS_FILE || '.data/events.jsonl');
+  return fileStore;
+}
@@ -0,0 +1,31 @@
+/**
+ * Every published entry that belongs in the RSS, Atom and JSON feeds
+ */
+
+import type { FeedItem } from '$lib/seo/feeds';
+import { getCaseStudies, serviceName } from '$lib/work';
+import { getPosts } from './blog';
+
+export function getFeedItems(): FeedItem[] {
+  const posts: FeedItem[] = getPosts().map((post) => ({
+    pathname: `/blog/${post.slug}`,
+    title: post.title,
+    summary: post.description,
+    published: post.date,
+    updated: post.updated,
+    tags: post.tags,
+    image: post.image,
+    author: post.author
+  }));
+
+  const caseStudies: FeedItem[] = getCaseStudies().map((study) => ({
+    pathname: `/work/${study.slug}`,
+    title: study.title,
+    summary: study.summary,
+    published: study.date,
+    tags: ['Case Study', study.industry, ...study.services.map(serviceName)],
+    image: study.gallery[0]?.src
+  }));
+
+  return [...posts, ...caseStudies];
+}
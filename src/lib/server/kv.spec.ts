@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+import { KVConfigError, RedisRestKV, getKVNamespace } from './kv';
+import type { KVNamespaceLike } from './vitals/store';
+
+// Answers REST commands from a list of results, recording each command it was sent
+function fakeRedis(...results: unknown[]) {
+	const commands: unknown[][] = [];
+	const fetcher = vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+		commands.push(JSON.parse(String(init?.body)));
+		return Response.json({ result: results.shift() ?? null });
+	});
+	return { kv: new RedisRestKV('https://redis.example', 'token', fetcher as typeof fetch), commands, fetcher };
+}
+
+describe('RedisRestKV', () => {
+	it('sends commands with the bearer token', async () => {
+		const { kv, commands, fetcher } = fakeRedis('value');
+
+		await expect(kv.get('vitals:a')).resolves.toBe('value');
+		expect(commands).toEqual([['GET', 'vitals:a']]);
+		expect(fetcher.mock.calls[0][1]?.headers).toMatchObject({ Authorization: 'Bearer token' });
+	});
+
+	it('maps expirationTtl to EX', async () => {
+		const { kv, commands } = fakeRedis('OK', 'OK');
+
+		await kv.put('leads:1', '{}', { expirationTtl: 60 });
+		await kv.put('leads:2', '{}');
+		expect(commands).toEqual([
+			['SET', 'leads:1', '{}', 'EX', 60],
+			['SET', 'leads:2', '{}']
+		]);
+	});
+
+	it('reads many keys with one MGET', async () => {
+		const { kv, commands } = fakeRedis(['a', null]);
+
+		await expect(kv.getMany(['vitals:1', 'vitals:2'])).resolves.toEqual(['a', null]);
+		await expect(kv.getMany([])).resolves.toEqual([]);
+		expect(commands).toEqual([['MGET', 'vitals:1', 'vitals:2']]);
+	});
+
+	it('writes lock keys only when absent', async () => {
+		const { kv, commands } = fakeRedis('OK', null, 1);
+
+		await expect(kv.putIfAbsent('booking-lock', 'a', { expirationTtl: 10 })).resolves.toBe(true);
+		await expect(kv.putIfAbsent('booking-lock', 'b')).resolves.toBe(false);
+		await kv.delete('booking-lock');
+		expect(commands).toEqual([
+			['SET', 'booking-lock', 'a', 'NX', 'EX', 10],
+			['SET', 'booking-lock', 'b', 'NX'],
+			['DEL', 'booking-lock']
+		]);
+	});
+
+	it('walks the whole scan and drops repeated keys', async () => {
+		const { kv, commands } = fakeRedis(['17', ['vitals:2026-10-01:a']], ['4', []], ['0', ['vitals:2026-10-01:a', 'vitals:2026-10-01:b']]);
+
+		const page = await kv.list({ prefix: 'vitals:2026-10-01:' });
+
+		expect(page).toEqual({ keys: [{ name: 'vitals:2026-10-01:a' }, { name: 'vitals:2026-10-01:b' }], list_complete: true });
+		expect(commands.map((command) => command[1])).toEqual(['0', '17', '4']);
+		expect(commands[0]).toEqual(['SCAN', '0', 'MATCH', 'vitals:2026-10-01:*', 'COUNT', 1000]);
+	});
+
+	it('escapes glob characters in the prefix', async () => {
+		const { kv, commands } = fakeRedis(['0', []]);
+
+		await kv.list({ prefix: 'a*[b]?:' });
+		expect(commands[0][3]).toBe('a\\*\\[b\\]\\?:*');
+	});
+
+	it('surfaces errors from Redis', async () => {
+		const fetcher = vi.fn(async () => Response.json({ error: 'WRONGPASS' }, { status: 401 }));
+		const kv = new RedisRestKV('https://redis.example', 'bad', fetcher as typeof fetch);
+
+		await expect(kv.get('a')).rejects.toThrow('Redis GET failed: WRONGPASS');
+	});
+});
+
+describe('getKVNamespace', () => {
+	const binding = {} as KVNamespaceLike;
+
+	it('prefers the platform binding', () => {
+		expect(getKVNamespace('LEADS_KV', { env: { LEADS_KV: binding } }, { VERCEL: '1' })).toBe(binding);
+	});
+
+	it('uses Redis over REST when configured', () => {
+		expect(getKVNamespace('LEADS_KV', undefined, { KV_REST_API_URL: 'https://redis.example', KV_REST_API_TOKEN: 't' })).toBeInstanceOf(
+			RedisRestKV
+		);
+		expect(
+			getKVNamespace('CONTACT_KV', {}, { UPSTASH_REDIS_REST_URL: 'https://redis.example', UPSTASH_REDIS_REST_TOKEN: 't' })
+		).toBeInstanceOf(RedisRestKV);
+	});
+
+	it('follows the configuration it is given', () => {
+		const first = { KV_REST_API_URL: 'https://one.example', KV_REST_API_TOKEN: 't' };
+		const client = getKVNamespace('LEADS_KV', undefined, first);
+
+		expect(getKVNamespace('CONTACT_KV', undefined, { ...first })).toBe(client);
+		expect(getKVNamespace('LEADS_KV', undefined, { ...first, KV_REST_API_URL: 'https://two.example' })).not.toBe(client);
+		expect(getKVNamespace('LEADS_KV', undefined, { ...first, KV_REST_API_TOKEN: 'u' })).not.toBe(client);
+	});
+
+	it('leaves local runs on the file store', () => {
+		expect(getKVNamespace('WEB_VITALS_KV', undefined, {})).toBeUndefined();
+	});
+
+	it('refuses to fall back to the read-only filesystem on Vercel', () => {
+		expect(() => getKVNamespace('WEB_VITALS_KV', undefined, { VERCEL: '1' })).toThrow(KVConfigError);
+	});
+});
@@ -0,0 +1,148 @@
+/**
+ * KV namespaces behind the vitals, contact, leads, events and booking stores
+ * A platform binding (e.g. Cloudflare KV) wins. The Vercel adapter passes no platform.env, so
+ * there the stores talk to a Redis database over the Upstash REST API - what Vercel's KV and
+ * Upstash integrations provision. Locally, with neither configured, the stores fall back to files.
+ */
+
+import { env } from '$env/dynamic/private';
+import type { KVNamespaceLike } from './vitals/store';
+
+export type KVBinding = keyof NonNullable<App.Platform['env']>;
+
+export class KVConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KVConfigError';
+  }
+}
+
+/**
+ * A KV namespace that can also write a key only when it is absent, for locks
+ * Cloudflare KV is eventually consistent and cannot; Redis can with SET NX.
+ */
+export interface AtomicKVNamespace extends KVNamespaceLike {
+  putIfAbsent(key: string, value: string, options?: { expirationTtl?: number }): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+export function isAtomicKV(kv: KVNamespaceLike): kv is AtomicKVNamespace {
+  return 'putIfAbsent' in kv && 'delete' in kv;
+}
+
+// Escape SCAN's glob characters so a prefix only ever matches itself
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * KVNamespaceLike over the Upstash Redis REST API
+ * Every store shares the one database and keeps to its own key prefix.
+ */
+export class RedisRestKV implements AtomicKVNamespace {
+  constructor(
+    private url: string,
+    private token: string,
+    private fetcher: typeof fetch = fetch
+  ) {}
+
+  private async command<T>(...args: (string | number)[]): Promise<T> {
+    const response = await this.fetcher(this.url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args)
+    });
+    const body = (await response.json().catch(() => ({}))) as { result?: T; error?: string };
+
+    if (!response.ok || body.error) {
+      throw new Error(`Redis ${args[0]} failed: ${body.error ?? `HTTP ${response.status}`}`);
+    }
+    return body.result as T;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return (await this.command<string | null>('GET', key)) ?? null;
+  }
+
+  async getMany(keys: string[]): Promise<(string | null)[]> {
+    if (keys.length === 0) return [];
+    return this.command<(string | null)[]>('MGET', ...keys);
+  }
+
+  async put(key: string, value: string, options: { expirationTtl?: number } = {}): Promise<void> {
+    if (options.expirationTtl) {
+      await this.command('SET', key, value, 'EX', options.expirationTtl);
+    } else {
+      await this.command('SET', key, value);
+    }
+  }
+
+  /**
+   * Set key only if nothing holds it yet, reporting whether this call set it
+   */
+  async putIfAbsent(key: string, value: string, options: { expirationTtl?: number } = {}): Promise<boolean> {
+    const expiry = options.expirationTtl ? ['EX', options.expirationTtl] : [];
+    return (await this.command<string | null>('SET', key, value, 'NX', ...expiry)) === 'OK';
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command('DEL', key);
+  }
+
+  /**
+   * Every key under prefix in one page
+   * SCAN may return a key more than once and pages can come back empty mid-scan, so this
+   * walks the whole cursor itself rather than handing Redis cursors to the caller.
+   */
+  async list({ prefix }: { prefix: string; cursor?: string }) {
+    const names = new Set<string>();
+    let cursor = '0';
+
+    do {
+      const [next, keys] = await this.command<[string, string[]]>(
+        'SCAN',
+        cursor,
+        'MATCH',
+        `${escapeGlob(prefix)}*`,
+        'COUNT',
+        1000
+      );
+      keys.forEach(name => names.add(name));
+      cursor = String(next);
+    } while (cursor !== '0');
+
+    return { keys: [...names].map(name => ({ name })), list_complete: true };
+  }
+}
+
+// Reused while the connection settings stay the same
+let redis: { url: string; token: string; kv: RedisRestKV } | undefined;
+
+/**
+ * The KV namespace a store should use, or undefined to use its local file
+ * Throws on Vercel when nothing is configured, since its filesystem is read-only.
+ */
+export function getKVNamespace(
+  binding: KVBinding,
+  platform?: App.Platform,
+  config: Record<string, string | undefined> = env
+): KVNamespaceLike | undefined {
+  const bound = platform?.env?.[binding];
+  if (bound) return bound;
+
+  const url = config.KV_REST_API_URL || config.UPSTASH_REDIS_REST_URL;
+  const token = config.KV_REST_API_TOKEN || config.UPSTASH_REDIS_REST_TOKEN;
+  if (url && token) {
+    if (redis?.url !== url || redis.token !== token) {
+      redis = { url, token, kv: new RedisRestKV(url, token) };
+    }
+    return redis.kv;
+  }
+
+  if (config.VERCEL) {
+    throw new KVConfigError(
+      `No ${binding} binding and no KV_REST_API_URL/KV_REST_API_TOKEN set; connect a KV (Upstash Redis) store to the project`
+    );
+  }
+  return undefined;
+}
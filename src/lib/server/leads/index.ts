@@ -0,0 +1,191 @@
+/**
+ * Storage, validation and team notification for completed lead qualification flows
+ */
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { z } from 'zod';
+import { env } from '$env/dynamic/private';
+import { site, type SiteConfig } from '$lib/config/site';
+import { getKVNamespace } from '$lib/server/kv';
+import {
+  BUDGET_OPTIONS,
+  GOAL_OPTIONS,
+  TIMELINE_OPTIONS,
+  leadSchema,
+  scoreLead,
+  type LeadAnswers,
+  type LeadOption,
+  type LeadTier
+} from '$lib/leads';
+import { notificationAddresses, type MailMessage, type MailTransport } from '$lib/server/contact';
+import type { KVNamespaceLike } from '$lib/server/vitals/store';
+
+export const MAX_LEAD_BYTES = 8 * 1024;
+
+export interface StoredLead extends LeadAnswers {
+  id: string;
+  score: number;
+  tier: LeadTier;
+  receivedAt: string;
+}
+
+/**
+ * A parsed lead with the spam check fields that came with it, which are never stored
+ */
+export interface LeadSubmission {
+  lead: StoredLead;
+  website: string;
+  startedAt: string;
+}
+
+// The same checks as the contact form: a field people never see, and a signed render time
+const spamFieldsSchema = z.object({
+  website: z.string().default(''),
+  startedAt: z.string().max(128).default('')
+});
+
+export interface LeadStore {
+  add(lead: StoredLead): Promise<void>;
+}
+
+export class LeadPayloadError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 413 = 400
+  ) {
+    super(message);
+    this.name = 'LeadPayloadError';
+  }
+}
+
+/**
+ * Validate a lead posted by the qualification flow and score it. The client's own
+ * score is never trusted - it is recomputed from the answers.
+ */
+export function parseLeadPayload(raw: string, now: Date = new Date()): LeadSubmission {
+  if (new TextEncoder().encode(raw).length > MAX_LEAD_BYTES) {
+    throw new LeadPayloadError('Payload too large', 413);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new LeadPayloadError('Body is not valid JSON');
+  }
+
+  const result = leadSchema.merge(spamFieldsSchema).safeParse(body);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    throw new LeadPayloadError(`${issue.path.join('.') || 'body'}: ${issue.message}`);
+  }
+
+  const { website, startedAt, ...answers } = result.data;
+  return {
+    lead: {
+      id: crypto.randomUUID(),
+      ...answers,
+      ...scoreLead(answers),
+      receivedAt: now.toISOString()
+    },
+    website,
+    startedAt
+  };
+}
+
+const labelFor = (options: readonly LeadOption[], value: string) =>
+  options.find((option) => option.value === value)?.label ?? value;
+
+/**
+ * The notification the team receives for a lead; replies go straight to the lead
+ */
+export function composeLeadEmail(
+  lead: StoredLead,
+  siteConfig: SiteConfig,
+  addresses: { from: string; to: string }
+): MailMessage {
+  const services = lead.services.map(
+    (slug) => siteConfig.services.find((service) => service.slug === slug)?.name ?? slug
+  );
+  const lines = [
+    `Name: ${lead.name}`,
+    `Email: ${lead.email}`,
+    ...(lead.company ? [`Company: ${lead.company}`] : []),
+    `Score: ${lead.score} (${lead.tier})`,
+    `Goals: ${lead.goals.map((goal) => labelFor(GOAL_OPTIONS, goal)).join(', ')}`,
+    `Budget: ${labelFor(BUDGET_OPTIONS, lead.budget)}`,
+    `Timeline: ${labelFor(TIMELINE_OPTIONS, lead.timeline)}`,
+    `Services: ${services.join(', ')}`,
+    `Received: ${lead.receivedAt}`
+  ];
+
+  return {
+    ...addresses,
+    replyTo: `"${lead.name.replace(/["\\\r\n]/g, '')}" <${lead.email}>`,
+    subject: `New ${lead.tier} lead from ${lead.name.replace(/[\r\n]/g, ' ')} - ${siteConfig.title}`,
+    text: lines.join('\n')
+  };
+}
+
+/**
+ * Persist a lead, then notify the team. As with contact submissions, the stored copy is the
+ * source of truth, so a delivery failure is logged rather than shown to the visitor.
+ */
+export async function receiveLead(
+  lead: StoredLead,
+  options: { store: LeadStore; transport: MailTransport }
+): Promise<void> {
+  await options.store.add(lead);
+
+  try {
+    await options.transport.send(composeLeadEmail(lead, site, notificationAddresses()));
+  } catch (e) {
+    console.error(`[leads] Could not deliver lead ${lead.id}`, e);
+  }
+}
+
+/**
+ * Appends leads as JSON lines in a local file
+ */
+export class FileLeadStore implements LeadStore {
+  constructor(private path: string) {}
+
+  async add(lead: StoredLead): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, JSON.stringify(lead) + '\n');
+  }
+}
+
+/**
+ * Writes each lead under a per-day key prefix
+ */
+export class KVLeadStore implements LeadStore {
+  constructor(
+    private kv: KVNamespaceLike,
+    private retentionDays: number = 365
+  ) {}
+
+  async add(lead: StoredLead): Promise<void> {
+    const key = `leads:${lead.receivedAt.slice(0, 10)}:${lead.id}`;
+    await this.kv.put(key, JSON.stringify(lead), {
+      expirationTtl: this.retentionDays * 24 * 60 * 60
+    });
+  }
+}
+
+let fileStore: FileLeadStore | undefined;
+
+/**
+ * Pick the lead store for this request - a KV namespace when deployed (see getKVNamespace),
+ * a local JSON lines file otherwise
+ */
+export function getLeadStore(platform?: App.Platform): LeadStore {
+  const kv = getKVNamespace('LEADS_KV', platform);
+  if (kv) {
+    return new KVLeadStore(kv);
+  }
+
+  fileStore ??= new FileLeadStore(env.LEADS_FILE || '.data/leads.jsonl');
+  return fileStore;
+}
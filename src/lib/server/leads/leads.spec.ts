@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import { site } from '$lib/config/site';
+import type { MailMessage, MailTransport } from '$lib/server/contact';
+import {
+	composeLeadEmail,
+	LeadPayloadError,
+	MAX_LEAD_BYTES,
+	parseLeadPayload,
+	receiveLead,
+	type LeadStore,
+	type StoredLead
+} from './index';
+
+const lead = {
+	goals: ['more-leads'],
+	budget: '15k-50k',
+	timeline: '1-3-months',
+	services: ['web-design', 'seo'],
+	name: 'Ada Lovelace',
+	email: 'ada@example.com',
+	company: ''
+};
+
+describe('parseLeadPayload', () => {
+	it('scores the answers on the server, ignoring any score the client sent', () => {
+		const { lead: stored } = parseLeadPayload(
+			JSON.stringify({ ...lead, score: 100, tier: 'hot' }),
+			new Date('2025-09-01T00:00:00Z')
+		);
+
+		expect(stored).toMatchObject({ ...lead, score: 75, tier: 'hot', receivedAt: '2025-09-01T00:00:00.000Z' });
+		expect(stored.id).toMatch(/^[0-9a-f-]{36}$/);
+	});
+
+	it('separates the spam check fields from the lead', () => {
+		const submission = parseLeadPayload(JSON.stringify({ ...lead, website: 'https://spam.example', startedAt: '1.abc' }));
+
+		expect(submission).toMatchObject({ website: 'https://spam.example', startedAt: '1.abc' });
+		expect(submission.lead).not.toHaveProperty('website');
+		expect(submission.lead).not.toHaveProperty('startedAt');
+		expect(parseLeadPayload(JSON.stringify(lead))).toMatchObject({ website: '', startedAt: '' });
+	});
+
+	it('rejects invalid answers with the field that failed', () => {
+		expect(() => parseLeadPayload(JSON.stringify({ ...lead, budget: 'a million' }))).toThrow(/^budget: Choose a budget range$/);
+		expect(() => parseLeadPayload(JSON.stringify({ ...lead, services: [] }))).toThrow(LeadPayloadError);
+		expect(() => parseLeadPayload('not json')).toThrow('Body is not valid JSON');
+	});
+
+	it('rejects oversized bodies with 413', () => {
+		try {
+			parseLeadPayload(JSON.stringify({ ...lead, company: 'x'.repeat(MAX_LEAD_BYTES) }));
+			expect.unreachable();
+		} catch (e) {
+			expect(e).toBeInstanceOf(LeadPayloadError);
+			expect((e as LeadPayloadError).status).toBe(413);
+		}
+	});
+});
+
+describe('receiveLead', () => {
+	const stored: StoredLead = { ...parseLeadPayload(JSON.stringify(lead)).lead, id: 'abc' };
+	const addresses = { from: 'site@taitmedia.com', to: 'team@taitmedia.com' };
+
+	it('tells the team what the lead asked for, in words', () => {
+		const message = composeLeadEmail(stored, site, addresses);
+
+		expect(message).toMatchObject({ ...addresses, replyTo: '"Ada Lovelace" <ada@example.com>' });
+		expect(message.subject).toBe(`New hot lead from Ada Lovelace - ${site.title}`);
+		expect(message.text).toContain('Budget: $15,000 - $50,000');
+		expect(message.text).toContain('Services: Web Design, SEO Services');
+	});
+
+	it('stores the lead, then sends the notification', async () => {
+		const leads: StoredLead[] = [];
+		const sent: MailMessage[] = [];
+		const store: LeadStore = { add: async (added) => void leads.push(added) };
+		const transport: MailTransport = { send: async (message) => void sent.push(message) };
+
+		await receiveLead(stored, { store, transport });
+
+		expect(leads).toEqual([stored]);
+		expect(sent.map((message) => message.replyTo)).toEqual(['"Ada Lovelace" <ada@example.com>']);
+	});
+
+	it('keeps the lead when delivery fails', async () => {
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		const leads: StoredLead[] = [];
+		const store: LeadStore = { add: async (added) => void leads.push(added) };
+		const transport: MailTransport = { send: () => Promise.reject(new Error('SMTP down')) };
+
+		await expect(receiveLead(stored, { store, transport })).resolves.toBeUndefined();
+		expect(leads).toEqual([stored]);
+	});
+});
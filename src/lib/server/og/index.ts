@@ -0,0 +1,161 @@
+/**
+ * Branded Open Graph cards, rendered at build time
+ * satori lays the card out with the bundled Inter files and resvg rasterizes it, so
+ * nothing is fetched and the output does not depend on the fonts of the build machine.
+ * Cards are cached on disk by a hash of everything that goes into them.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { join } from 'node:path';
+import { Resvg } from '@resvg/resvg-js';
+import satori from 'satori';
+import { env } from '$env/dynamic/private';
+import { breadcrumbLabel } from '$lib/config/routes';
+import type { SiteConfig } from '$lib/config/site';
+import { OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH } from '$lib/seo/og';
+import type { PublicPage } from '$lib/seo/pages';
+
+// Bump when the card layout changes so cached cards are re-rendered
+export const OG_TEMPLATE_VERSION = 1;
+
+export interface OgCard {
+  title: string;
+  // Small label above the title, e.g. "Blog" or "Services"
+  section?: string;
+}
+
+interface OgAssets {
+  regular: Buffer;
+  bold: Buffer;
+  logo: Buffer;
+}
+
+const require = createRequire(import.meta.url);
+
+// Keyed by logo path, the only asset that depends on the site
+const assets = new Map<string, Promise<OgAssets>>();
+
+function loadAssets(site: SiteConfig): Promise<OgAssets> {
+  const font = (weight: number) => readFile(require.resolve(`@fontsource/inter/files/inter-latin-${weight}-normal.woff`));
+
+  let loaded = assets.get(site.logo);
+  if (!loaded) {
+    loaded = Promise.all([font(400), font(800), readFile(join('static', site.logo))]).then(([regular, bold, logo]) => ({
+      regular,
+      bold,
+      logo
+    }));
+    assets.set(site.logo, loaded);
+  }
+  return loaded;
+}
+
+/**
+ * The card for a page: its title, labelled with the section of the site it sits in,
+ * named as the breadcrumbs name it
+ */
+export function ogCardFor(page: PublicPage, site: SiteConfig): OgCard {
+  const [segment] = page.pathname.split('/').filter(Boolean);
+  const title = page.meta.title || site.title;
+
+  return {
+    title,
+    section: segment ? breadcrumbLabel(`/${segment}`) : undefined
+  };
+}
+
+export function ogCacheKey(card: OgCard, site: SiteConfig, logo: Uint8Array): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ version: OG_TEMPLATE_VERSION, card, title: site.title, url: site.url, colors: site.brandColors }))
+    .update(logo)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+interface Node {
+  type: string;
+  props: { style?: Record<string, string | number>; children?: (Node | string)[] | Node | string; src?: string; width?: number; height?: number };
+}
+
+const div = (style: Node['props']['style'], children?: Node['props']['children']): Node => ({
+  type: 'div',
+  props: { style: { display: 'flex', ...style }, children }
+});
+
+function titleSize(title: string): number {
+  if (title.length > 70) return 56;
+  if (title.length > 40) return 68;
+  return 80;
+}
+
+function cardTree(card: OgCard, site: SiteConfig, logo: Buffer): Node {
+  const colors = site.brandColors;
+
+  return div(
+    {
+      width: '100%',
+      height: '100%',
+      flexDirection: 'column',
+      justifyContent: 'space-between',
+      padding: '64px 72px',
+      backgroundColor: colors.dark,
+      backgroundImage: `linear-gradient(135deg, ${colors.dark} 55%, ${colors.primary})`,
+      color: colors.light,
+      fontFamily: 'Inter'
+    },
+    [
+      div({ alignItems: 'center', gap: 24 }, [
+        {
+          type: 'img',
+          props: { src: `data:image/png;base64,${logo.toString('base64')}`, width: 72, height: 72, style: { borderRadius: 16 } }
+        },
+        div({ fontSize: 32, fontWeight: 800 }, site.title)
+      ]),
+      div({ flexDirection: 'column', gap: 20 }, [
+        ...(card.section
+          ? [div({ fontSize: 28, fontWeight: 800, color: colors.accent, textTransform: 'uppercase', letterSpacing: 2 }, card.section)]
+          : []),
+        div({ fontSize: titleSize(card.title), fontWeight: 800, lineHeight: 1.1, lineClamp: 3 }, card.title)
+      ]),
+      div({ alignItems: 'center', justifyContent: 'space-between', fontSize: 26 }, [
+        div({ color: '#cbd5e1' }, new URL(site.url).hostname),
+        div({ width: 160, height: 10, borderRadius: 5, backgroundColor: colors.secondary })
+      ])
+    ]
+  );
+}
+
+/**
+ * Render a card to PNG, reusing the cached file when nothing that feeds it has changed
+ */
+export async function renderOgImage(
+  card: OgCard,
+  site: SiteConfig,
+  options: { cacheDir?: string } = {}
+): Promise<Uint8Array> {
+  const { regular, bold, logo } = await loadAssets(site);
+  const cacheDir = options.cacheDir ?? (env.OG_CACHE_DIR || 'node_modules/.cache/og');
+  const cached = join(cacheDir, `${ogCacheKey(card, site, logo)}.png`);
+
+  try {
+    return await readFile(cached);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+  }
+
+  const svg = await satori(cardTree(card, site, logo) as Parameters<typeof satori>[0], {
+    width: OG_IMAGE_WIDTH,
+    height: OG_IMAGE_HEIGHT,
+    fonts: [
+      { name: 'Inter', data: regular, weight: 400, style: 'normal' },
+      { name: 'Inter', data: bold, weight: 800, style: 'normal' }
+    ]
+  });
+  const png = new Resvg(svg, { fitTo: { mode: 'width', value: OG_IMAGE_WIDTH } }).render().asPng();
+
+  await mkdir(cacheDir, { recursive: true });
+  await writeFile(cached, png);
+  return png;
+}
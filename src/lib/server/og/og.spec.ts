@@ -0,0 +1,82 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { site } from '$lib/config/site';
+import { ogImagePath, ogPathname } from '$lib/seo/og';
+import { pageImage } from '$lib/seo/utils';
+import { ogCacheKey, ogCardFor, renderOgImage } from './index';
+
+describe('card paths', () => {
+	it('map pages to cards and back', () => {
+		expect(ogImagePath('/')).toBe('/og/index.png');
+		expect(ogImagePath('/blog/hello-world/')).toBe('/og/blog/hello-world.png');
+		expect(ogPathname('index')).toBe('/');
+		expect(ogPathname('blog/hello-world')).toBe('/blog/hello-world');
+	});
+
+	it('fall back to the generated card unless a page has its own image or is noindex', () => {
+		expect(pageImage({ title: 'SEO' }, '/services/seo', site)).toBe('/og/services/seo.png');
+		expect(pageImage({ image: '/images/cover.jpg' }, '/blog/post', site)).toBe('/images/cover.jpg');
+		expect(pageImage({ noindex: true }, '/admin/vitals', site)).toBe(site.defaultImage);
+	});
+});
+
+describe('ogCardFor', () => {
+	it('labels a card with its section', () => {
+		expect(ogCardFor({ pathname: '/services/seo', meta: { title: 'SEO Services' } }, site)).toEqual({
+			title: 'SEO Services',
+			section: 'Services'
+		});
+		expect(ogCardFor({ pathname: '/', meta: {} }, site)).toEqual({ title: site.title, section: undefined });
+	});
+
+	it('names sections the way the breadcrumbs do', () => {
+		expect(ogCardFor({ pathname: '/book', meta: { title: 'Book a Discovery Call' } }, site).section).toBe('Book a discovery call');
+		expect(ogCardFor({ pathname: '/contact', meta: { title: 'Contact Us' } }, site).section).toBe('Contact');
+	});
+});
+
+describe('renderOgImage', () => {
+	let cacheDir: string;
+
+	beforeAll(async () => {
+		cacheDir = await mkdtemp(join(tmpdir(), 'og-'));
+	});
+
+	afterAll(async () => {
+		await rm(cacheDir, { recursive: true, force: true });
+	});
+
+	it('changes the cache key with anything drawn on the card', () => {
+		const logo = new Uint8Array([1, 2, 3]);
+		const key = ogCacheKey({ title: 'A' }, site, logo);
+
+		expect(ogCacheKey({ title: 'A' }, site, logo)).toBe(key);
+		expect(ogCacheKey({ title: 'B' }, site, logo)).not.toBe(key);
+		expect(ogCacheKey({ title: 'A' }, { ...site, brandColors: { ...site.brandColors, primary: '#000000' } }, logo)).not.toBe(key);
+		expect(ogCacheKey({ title: 'A' }, site, new Uint8Array([4]))).not.toBe(key);
+	});
+
+	it('renders a 1200x630 PNG offline and serves repeats from the cache', async () => {
+		const card = { title: 'Websites that load fast', section: 'Services' };
+		const png = await renderOgImage(card, site, { cacheDir });
+		const view = new DataView(png.buffer, png.byteOffset);
+
+		expect([...png.subarray(1, 4)].map((byte) => String.fromCharCode(byte)).join('')).toBe('PNG');
+		expect([view.getUint32(16), view.getUint32(20)]).toEqual([1200, 630]);
+		expect(await readdir(cacheDir)).toHaveLength(1);
+
+		expect(Buffer.compare(await renderOgImage(card, site, { cacheDir }), png)).toBe(0);
+		expect(await readdir(cacheDir)).toHaveLength(1);
+	}, 30_000);
+
+	it('draws the logo of the site it is given', async () => {
+		const card = { title: 'Websites that load fast', section: 'Services' };
+		const png = await renderOgImage(card, site, { cacheDir });
+		const other = await renderOgImage(card, { ...site, logo: '/blue-logo.png' }, { cacheDir });
+
+		expect(Buffer.compare(other, png)).not.toBe(0);
+		expect(await readdir(cacheDir)).toHaveLength(2);
+	}, 30_000);
+});
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter } from './rate-limit';
+
+describe('RateLimiter', () => {
+	it('allows up to the limit per key, then resets with the window', () => {
+		const limiter = new RateLimiter(2, 60_000);
+
+		expect(limiter.consume('1.2.3.4', 0).allowed).toBe(true);
+		expect(limiter.consume('1.2.3.4', 1_000).allowed).toBe(true);
+		expect(limiter.consume('1.2.3.4', 2_000)).toEqual({ allowed: false, remaining: 0, retryAfter: 58 });
+		expect(limiter.consume('5.6.7.8', 2_000).allowed).toBe(true);
+		expect(limiter.consume('1.2.3.4', 60_000).allowed).toBe(true);
+	});
+});
@@ -0,0 +1,52 @@
+/**
+ * Fixed-window rate limiting for form endpoints
+ * Counts live in memory, so each server instance keeps its own window - enough to blunt
+ * bursts from one address without a shared store
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the window resets, for a Retry-After header
+  retryAfter: number;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+export class RateLimiter {
+  private windows = new Map<string, Window>();
+
+  constructor(
+    private limit: number,
+    private windowMs: number
+  ) {}
+
+  /**
+   * Count one request against key and report whether it is within the limit
+   */
+  consume(key: string, now: number = Date.now()): RateLimitResult {
+    this.prune(now);
+
+    let window = this.windows.get(key);
+    if (!window) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+    window.count += 1;
+
+    return {
+      allowed: window.count <= this.limit,
+      remaining: Math.max(0, this.limit - window.count),
+      retryAfter: Math.ceil((window.resetAt - now) / 1000)
+    };
+  }
+
+  private prune(now: number) {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) this.windows.delete(key);
+    }
+  }
+}
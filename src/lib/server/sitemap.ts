@@ -0,0 +1,12 @@
+/**
+ * Every page that belongs in the sitemap: the static public pages plus generated content
+ */
+
+import { publicPages, type PublicPage } from '$lib/seo/pages';
+import { getServicePages } from '$lib/services';
+import { getWorkPages } from '$lib/work';
+import { getBlogPages } from './blog';
+
+export function getSitemapPages(): PublicPage[] {
+  return [...publicPages, ...getServicePages(), ...getWorkPages(), ...getBlogPages()];
+}
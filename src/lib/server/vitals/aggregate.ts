@@ -0,0 +1,77 @@
+/**
+ * Aggregation of stored Web Vitals samples
+ */
+
+import type { DeviceClass, MetricName, VitalsSample } from './types';
+
+export interface VitalsAggregate {
+  metric: MetricName;
+  route: string;
+  device: DeviceClass;
+  p75: number;
+  count: number;
+}
+
+/**
+ * 75th percentile using the nearest-rank method, as CrUX reports it
+ */
+export function percentile75(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.ceil(sorted.length * 0.75) - 1];
+}
+
+/**
+ * Compute p75 per metric, per route and per device class
+ */
+export function aggregateVitals(samples: VitalsSample[]): VitalsAggregate[] {
+  const groups = new Map<string, { key: Omit<VitalsAggregate, 'p75' | 'count'>; values: number[] }>();
+
+  for (const sample of samples) {
+    const id = `${sample.metric}|${sample.route}|${sample.device}`;
+    let group = groups.get(id);
+    if (!group) {
+      group = {
+        key: { metric: sample.metric, route: sample.route, device: sample.device },
+        values: []
+      };
+      groups.set(id, group);
+    }
+    group.values.push(sample.value);
+  }
+
+  return [...groups.values()]
+    .map(({ key, values }) => ({ ...key, p75: percentile75(values), count: values.length }))
+    .sort((a, b) =>
+      a.metric.localeCompare(b.metric) || a.route.localeCompare(b.route) || a.device.localeCompare(b.device)
+    );
+}
+
+export interface VitalsTrendPoint {
+  metric: MetricName;
+  day: string; // YYYY-MM-DD (UTC)
+  p75: number;
+  count: number;
+}
+
+/**
+ * Compute p75 per metric for each UTC day, oldest first
+ */
+export function aggregateVitalsByDay(samples: VitalsSample[]): VitalsTrendPoint[] {
+  const groups = new Map<string, { metric: MetricName; day: string; values: number[] }>();
+
+  for (const sample of samples) {
+    const day = new Date(sample.timestamp).toISOString().slice(0, 10);
+    const id = `${sample.metric}|${day}`;
+    let group = groups.get(id);
+    if (!group) {
+      group = { metric: sample.metric, day, values: [] };
+      groups.set(id, group);
+    }
+    group.values.push(sample.value);
+  }
+
+  return [...groups.values()]
+    .map(({ metric, day, values }) => ({ metric, day, p75: percentile75(values), count: values.length }))
+    .sort((a, b) => a.day.localeCompare(b.day) || a.metric.localeCompare(b.metric));
+}
@@ -0,0 +1,26 @@
+import { env } from '$env/dynamic/private';
+import { getKVNamespace } from '$lib/server/kv';
+import { FileVitalsStore, KVVitalsStore, type VitalsStore } from './store';
+
+export * from './aggregate';
+export * from './store';
+export * from './types';
+export * from './validate';
+
+const DEFAULT_FILE = '.data/web-vitals.jsonl';
+
+let fileStore: FileVitalsStore | undefined;
+
+/**
+ * Pick the vitals store for this request - a KV namespace when deployed (see getKVNamespace),
+ * a local JSON lines file otherwise
+ */
+export function getVitalsStore(platform?: App.Platform): VitalsStore {
+  const kv = getKVNamespace('WEB_VITALS_KV', platform);
+  if (kv) {
+    return new KVVitalsStore(kv);
+  }
+
+  fileStore ??= new FileVitalsStore(env.WEB_VITALS_FILE || DEFAULT_FILE);
+  return fileStore;
+}
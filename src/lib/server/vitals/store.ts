@@ -0,0 +1,144 @@
+/**
+ * Pluggable storage for Web Vitals samples
+ * File-backed locally, a KV namespace (Cloudflare KV or Redis over REST) in production
+ */
+
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { aggregateVitals, type VitalsAggregate } from './aggregate';
+import { matchesQuery, type VitalsQuery, type VitalsSample } from './types';
+
+export interface VitalsStore {
+  add(samples: VitalsSample[]): Promise<void>;
+  query(query?: VitalsQuery): Promise<VitalsSample[]>;
+}
+
+/**
+ * Minimal subset of a KV namespace the vitals store relies on
+ */
+export interface KVNamespaceLike {
+  get(key: string): Promise<string | null>;
+  // Many keys in one round trip, where the backend can (Redis MGET)
+  getMany?(keys: string[]): Promise<(string | null)[]>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  list(options: { prefix: string; cursor?: string }): Promise<{
+    keys: { name: string }[];
+    list_complete: boolean;
+    cursor?: string;
+  }>;
+}
+
+// Keys per batched read, so one request never carries an unbounded key list
+const GET_BATCH_SIZE = 500;
+
+/**
+ * Values for keys, in order - batched when the namespace supports it, one get per key otherwise
+ */
+export async function getAllValues(kv: KVNamespaceLike, keys: string[]): Promise<(string | null)[]> {
+  if (!kv.getMany) return Promise.all(keys.map(key => kv.get(key)));
+
+  const values: (string | null)[] = [];
+  for (let i = 0; i < keys.length; i += GET_BATCH_SIZE) {
+    values.push(...(await kv.getMany(keys.slice(i, i + GET_BATCH_SIZE))));
+  }
+  return values;
+}
+
+/**
+ * Stores samples as JSON lines in a local file
+ */
+export class FileVitalsStore implements VitalsStore {
+  constructor(private path: string) {}
+
+  async add(samples: VitalsSample[]): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, samples.map(sample => JSON.stringify(sample)).join('\n') + '\n');
+  }
+
+  async query(query: VitalsQuery = {}): Promise<VitalsSample[]> {
+    let contents: string;
+    try {
+      contents = await readFile(this.path, 'utf8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw e;
+    }
+
+    return contents
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line) as VitalsSample)
+      .filter(sample => matchesQuery(sample, query));
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stores each beacon under a per-day key prefix so range queries only list the days they cover
+ */
+export class KVVitalsStore implements VitalsStore {
+  constructor(
+    private kv: KVNamespaceLike,
+    private options: { prefix?: string; retentionDays?: number } = {}
+  ) {}
+
+  private get prefix() {
+    return this.options.prefix ?? 'vitals';
+  }
+
+  private dayKey(timestamp: number) {
+    return new Date(timestamp).toISOString().slice(0, 10);
+  }
+
+  async add(samples: VitalsSample[]): Promise<void> {
+    if (samples.length === 0) return;
+
+    const { timestamp } = samples[0];
+    const id = `${timestamp}-${Math.random().toString(36).slice(2, 10)}`;
+    const key = `${this.prefix}:${this.dayKey(timestamp)}:${id}`;
+    const retentionDays = this.options.retentionDays ?? 90;
+
+    await this.kv.put(key, JSON.stringify(samples), {
+      expirationTtl: retentionDays * 24 * 60 * 60
+    });
+  }
+
+  async query(query: VitalsQuery = {}): Promise<VitalsSample[]> {
+    const retentionDays = this.options.retentionDays ?? 90;
+    const to = query.to ?? Date.now();
+    const from = query.from ?? to - retentionDays * DAY_MS;
+    const keys: string[] = [];
+
+    for (let day = Date.parse(this.dayKey(from)); day <= to; day += DAY_MS) {
+      const prefix = `${this.prefix}:${this.dayKey(day)}:`;
+      let cursor: string | undefined;
+
+      do {
+        const page = await this.kv.list({ prefix, cursor });
+        keys.push(...page.keys.map(({ name }) => name));
+        cursor = page.list_complete ? undefined : page.cursor;
+      } while (cursor);
+    }
+
+    // Every beacon in the range is read at once rather than one round trip per key
+    const samples: VitalsSample[] = [];
+    for (const value of await getAllValues(this.kv, keys)) {
+      if (!value) continue;
+      for (const sample of JSON.parse(value) as VitalsSample[]) {
+        if (matchesQuery(sample, query)) samples.push(sample);
+      }
+    }
+    return samples;
+  }
+}
+
+/**
+ * Run the p75 aggregate query against any store
+ */
+export async function queryVitalsAggregates(
+  store: VitalsStore,
+  query: VitalsQuery = {}
+): Promise<VitalsAggregate[]> {
+  return aggregateVitals(await store.query(query));
+}
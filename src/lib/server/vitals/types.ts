@@ -0,0 +1,41 @@
+/**
+ * Shared types for stored Web Vitals samples
+ */
+
+import type { MetricAttribution, PerformanceMetric, WebVitalsReport } from '$lib/performance';
+
+export type MetricName = keyof WebVitalsReport;
+
+export type DeviceClass = 'mobile' | 'desktop';
+
+export const METRIC_NAMES: readonly MetricName[] = ['fcp', 'lcp', 'fid', 'cls', 'ttfb', 'inp'];
+
+export interface VitalsSample {
+  metric: MetricName;
+  value: number;
+  rating: PerformanceMetric['rating'];
+  route: string;
+  device: DeviceClass;
+  timestamp: number;
+  attribution?: MetricAttribution;
+}
+
+export interface VitalsQuery {
+  from?: number; // epoch ms, inclusive
+  to?: number; // epoch ms, inclusive
+  route?: string;
+  device?: DeviceClass;
+  metric?: MetricName;
+}
+
+/**
+ * Check whether a sample falls inside a query
+ */
+export function matchesQuery(sample: VitalsSample, query: VitalsQuery = {}): boolean {
+  if (query.from !== undefined && sample.timestamp < query.from) return false;
+  if (query.to !== undefined && sample.timestamp > query.to) return false;
+  if (query.route !== undefined && sample.route !== query.route) return false;
+  if (query.device !== undefined && sample.device !== query.device) return false;
+  if (query.metric !== undefined && sample.metric !== query.metric) return false;
+  return true;
+}
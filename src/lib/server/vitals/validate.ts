@@ -0,0 +1,239 @@
+/**
+ * Validation for beacons posted by sendToAnalytics
+ */
+
+import type {
+  CLSAttribution,
+  INPAttribution,
+  LCPAttribution,
+  MetricAttribution,
+  PerformanceMetric
+} from '$lib/performance';
+import { METRIC_NAMES, type DeviceClass, type MetricName, type VitalsSample } from './types';
+
+// A full report is well under 2kb; anything bigger is not ours
+export const MAX_PAYLOAD_BYTES = 8 * 1024;
+
+const RATINGS: readonly PerformanceMetric['rating'][] = ['good', 'needs-improvement', 'poor'];
+
+export class VitalsPayloadError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 413 = 400
+  ) {
+    super(message);
+    this.name = 'VitalsPayloadError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isDuration(value: unknown): value is number {
+  return isFiniteNumber(value) && value >= 0;
+}
+
+function isOptionalString(value: unknown, maxLength: number): value is string | undefined {
+  return value === undefined || (typeof value === 'string' && value.length <= maxLength);
+}
+
+/**
+ * Validate a metric's attribution and copy only the fields we know about
+ */
+function parseAttribution(name: MetricName, value: unknown): MetricAttribution | undefined {
+  if (value === undefined) return undefined;
+
+  if (isRecord(value)) {
+    if (name === 'lcp') {
+      const { element, url, timeToFirstByte, resourceLoadDelay, resourceLoadDuration, elementRenderDelay } = value;
+      if (
+        isOptionalString(element, 256) &&
+        isOptionalString(url, 2048) &&
+        isDuration(timeToFirstByte) &&
+        isDuration(resourceLoadDelay) &&
+        isDuration(resourceLoadDuration) &&
+        isDuration(elementRenderDelay)
+      ) {
+        return {
+          element,
+          url,
+          timeToFirstByte,
+          resourceLoadDelay,
+          resourceLoadDuration,
+          elementRenderDelay
+        } satisfies LCPAttribution;
+      }
+    }
+
+    if (name === 'cls') {
+      const { largestShiftTime, largestShiftValue, largestShiftSources } = value;
+      if (
+        (largestShiftTime === undefined || isDuration(largestShiftTime)) &&
+        (largestShiftValue === undefined || isDuration(largestShiftValue)) &&
+        Array.isArray(largestShiftSources) &&
+        largestShiftSources.length <= 10 &&
+        largestShiftSources.every(source => typeof source === 'string' && source.length <= 256)
+      ) {
+        return {
+          largestShiftTime,
+          largestShiftValue,
+          largestShiftSources: largestShiftSources as string[]
+        } satisfies CLSAttribution;
+      }
+    }
+
+    if (name === 'inp') {
+      const { interactionTarget, eventType, inputDelay, processingDuration, presentationDelay } = value;
+      if (
+        isOptionalString(interactionTarget, 256) &&
+        typeof eventType === 'string' &&
+        eventType.length <= 64 &&
+        isDuration(inputDelay) &&
+        isDuration(processingDuration) &&
+        isDuration(presentationDelay)
+      ) {
+        return {
+          interactionTarget,
+          eventType,
+          inputDelay,
+          processingDuration,
+          presentationDelay
+        } satisfies INPAttribution;
+      }
+    }
+  }
+
+  throw new VitalsPayloadError(`Invalid ${name} attribution`);
+}
+
+/**
+ * Classify a user agent as mobile or desktop
+ */
+export function classifyDevice(userAgent: string): DeviceClass {
+  return /Mobi|Android|iPhone|iPad|iPod/i.test(userAgent) ? 'mobile' : 'desktop';
+}
+
+/**
+ * Reduce a page URL to the route it was measured on
+ */
+export function normalizeRoute(pageUrl: string): string {
+  const { pathname } = new URL(pageUrl, 'http://localhost');
+  return pathname === '/' ? pathname : pathname.replace(/\/+$/, '');
+}
+
+/**
+ * Read a beacon body as text, giving up with a 413 as soon as it passes MAX_PAYLOAD_BYTES
+ * Content-Length is only a claim, and chunked uploads leave it out altogether.
+ */
+export async function readVitalsPayload(body: ReadableStream<Uint8Array> | null): Promise<string> {
+  if (!body) return '';
+
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > MAX_PAYLOAD_BYTES) {
+      await reader.cancel();
+      throw new VitalsPayloadError('Payload too large', 413);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Validate a WebVitalsReport beacon and flatten it into samples
+ */
+export function parseVitalsPayload(raw: string): VitalsSample[] {
+  if (new TextEncoder().encode(raw).length > MAX_PAYLOAD_BYTES) {
+    throw new VitalsPayloadError('Payload too large', 413);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new VitalsPayloadError('Body is not valid JSON');
+  }
+
+  if (!isRecord(body)) {
+    throw new VitalsPayloadError('Body must be a JSON object');
+  }
+
+  const { url, userAgent, timestamp } = body;
+
+  if (typeof url !== 'string' || url.length > 2048) {
+    throw new VitalsPayloadError('Missing or invalid url');
+  }
+  if (typeof userAgent !== 'string' || userAgent.length > 512) {
+    throw new VitalsPayloadError('Missing or invalid userAgent');
+  }
+  if (!isFiniteNumber(timestamp) || timestamp <= 0) {
+    throw new VitalsPayloadError('Missing or invalid timestamp');
+  }
+
+  let route: string;
+  try {
+    route = normalizeRoute(url);
+  } catch {
+    throw new VitalsPayloadError('Missing or invalid url');
+  }
+
+  const device = classifyDevice(userAgent);
+  const samples: VitalsSample[] = [];
+
+  for (const name of METRIC_NAMES) {
+    const metric = body[name];
+    if (metric === undefined) continue;
+
+    if (
+      !isRecord(metric) ||
+      metric.name !== name ||
+      !isFiniteNumber(metric.value) ||
+      metric.value < 0 ||
+      !RATINGS.includes(metric.rating as PerformanceMetric['rating']) ||
+      !isFiniteNumber(metric.timestamp)
+    ) {
+      throw new VitalsPayloadError(`Invalid ${name} metric`);
+    }
+
+    const sample: VitalsSample = {
+      metric: name,
+      value: metric.value,
+      rating: metric.rating as PerformanceMetric['rating'],
+      route,
+      device,
+      timestamp
+    };
+
+    const attribution = parseAttribution(name, metric.attribution);
+    if (attribution) {
+      sample.attribution = attribution;
+    }
+
+    samples.push(sample);
+  }
+
+  if (samples.length === 0) {
+    throw new VitalsPayloadError('Report contains no metrics');
+  }
+
+  return samples;
+}
@@ -0,0 +1,244 @@
+import { describe, expect, it, vi } from 'vitest';
+import { aggregateVitals, aggregateVitalsByDay, percentile75 } from './aggregate';
+import { KVVitalsStore, type KVNamespaceLike } from './store';
+import type { VitalsSample } from './types';
+import {
+	MAX_PAYLOAD_BYTES,
+	VitalsPayloadError,
+	classifyDevice,
+	normalizeRoute,
+	parseVitalsPayload,
+	readVitalsPayload
+} from './validate';
+
+const desktop = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/126.0';
+const iphone = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) Mobile/15E148';
+
+function report(overrides: Record<string, unknown> = {}) {
+	return {
+		url: 'https://taitmedia.com/services/?ref=nav',
+		userAgent: desktop,
+		timestamp: 1_760_000_000_000,
+		lcp: {
+			name: 'lcp',
+			value: 2100,
+			rating: 'good',
+			timestamp: 1_760_000_000_500,
+			attribution: {
+				element: 'img.hero',
+				timeToFirstByte: 300,
+				resourceLoadDelay: 100,
+				resourceLoadDuration: 900,
+				elementRenderDelay: 800,
+				extra: 'dropped'
+			}
+		},
+		cls: { name: 'cls', value: 0.02, rating: 'good', timestamp: 1_760_000_000_900 },
+		...overrides
+	};
+}
+
+function parse(body: unknown) {
+	return parseVitalsPayload(JSON.stringify(body));
+}
+
+function parseError(run: () => unknown): VitalsPayloadError {
+	try {
+		run();
+	} catch (e) {
+		if (e instanceof VitalsPayloadError) return e;
+		throw e;
+	}
+	throw new Error('Expected a VitalsPayloadError');
+}
+
+function sample(overrides: Partial<VitalsSample> = {}): VitalsSample {
+	return {
+		metric: 'lcp',
+		value: 2000,
+		rating: 'good',
+		route: '/',
+		device: 'desktop',
+		timestamp: Date.UTC(2026, 9, 1, 12),
+		...overrides
+	};
+}
+
+describe('parseVitalsPayload', () => {
+	it('flattens a report into one sample per metric', () => {
+		const samples = parse(report());
+
+		expect(samples).toHaveLength(2);
+		expect(samples[0]).toEqual({
+			metric: 'lcp',
+			value: 2100,
+			rating: 'good',
+			route: '/services',
+			device: 'desktop',
+			timestamp: 1_760_000_000_000,
+			attribution: {
+				element: 'img.hero',
+				url: undefined,
+				timeToFirstByte: 300,
+				resourceLoadDelay: 100,
+				resourceLoadDuration: 900,
+				elementRenderDelay: 800
+			}
+		});
+		expect(samples[1]).toMatchObject({ metric: 'cls', value: 0.02, route: '/services' });
+	});
+
+	it('classifies mobile user agents', () => {
+		expect(parse(report({ userAgent: iphone })).every((s) => s.device === 'mobile')).toBe(true);
+	});
+
+	it('rejects bodies that are not a JSON object', () => {
+		expect(parseError(() => parseVitalsPayload('{')).message).toBe('Body is not valid JSON');
+		expect(parseError(() => parseVitalsPayload('[]')).message).toBe('Body must be a JSON object');
+	});
+
+	it('rejects oversized bodies with a 413', () => {
+		const error = parseError(() => parse(report({ padding: 'x'.repeat(MAX_PAYLOAD_BYTES) })));
+
+		expect(error.status).toBe(413);
+	});
+
+	it('rejects missing fields and malformed metrics with a 400', () => {
+		expect(parseError(() => parse(report({ url: undefined }))).message).toBe('Missing or invalid url');
+		expect(parseError(() => parse(report({ timestamp: -1 }))).message).toBe('Missing or invalid timestamp');
+		expect(parseError(() => parse(report({ lcp: { name: 'lcp', value: -5, rating: 'good', timestamp: 1 } }))).message).toBe(
+			'Invalid lcp metric'
+		);
+		expect(parseError(() => parse(report({ cls: { name: 'inp', value: 0.1, rating: 'good', timestamp: 1 } }))).status).toBe(400);
+		expect(parseError(() => parse({ url: '/', userAgent: desktop, timestamp: 1 })).message).toBe('Report contains no metrics');
+	});
+
+	it('rejects attribution that does not match the metric', () => {
+		const inp = { name: 'inp', value: 180, rating: 'good', timestamp: 1, attribution: { eventType: 'click', inputDelay: -1 } };
+
+		expect(parseError(() => parse(report({ inp }))).message).toBe('Invalid inp attribution');
+	});
+});
+
+describe('readVitalsPayload', () => {
+	const stream = (...chunks: string[]) => new Blob(chunks).stream();
+
+	it('reads the body as text', async () => {
+		await expect(readVitalsPayload(stream('{"a":', '1}'))).resolves.toBe('{"a":1}');
+		await expect(readVitalsPayload(null)).resolves.toBe('');
+	});
+
+	it('stops at the byte limit whatever the headers claim', async () => {
+		const body = stream('x'.repeat(MAX_PAYLOAD_BYTES), 'y');
+
+		await expect(readVitalsPayload(body)).rejects.toMatchObject({ name: 'VitalsPayloadError', status: 413 });
+	});
+});
+
+describe('normalizeRoute and classifyDevice', () => {
+	it('reduces URLs to their path without a trailing slash', () => {
+		expect(normalizeRoute('https://taitmedia.com/')).toBe('/');
+		expect(normalizeRoute('https://taitmedia.com/blog/post/?utm_source=x#top')).toBe('/blog/post');
+		expect(normalizeRoute('/work')).toBe('/work');
+	});
+
+	it('treats tablets and phones as mobile', () => {
+		expect(classifyDevice(iphone)).toBe('mobile');
+		expect(classifyDevice('Mozilla/5.0 (Linux; Android 14; Pixel 8)')).toBe('mobile');
+		expect(classifyDevice(desktop)).toBe('desktop');
+	});
+});
+
+describe('percentile75', () => {
+	it('uses the nearest rank', () => {
+		expect(percentile75([])).toBe(0);
+		expect(percentile75([5])).toBe(5);
+		expect(percentile75([4, 1, 3, 2])).toBe(3);
+		expect(percentile75([1, 2, 3, 4, 5])).toBe(4);
+	});
+});
+
+describe('aggregateVitals', () => {
+	it('groups by metric, route and device in a stable order', () => {
+		const aggregates = aggregateVitals([
+			sample({ value: 1000 }),
+			sample({ value: 3000 }),
+			sample({ value: 2000 }),
+			sample({ value: 4000 }),
+			sample({ device: 'mobile', value: 5000 }),
+			sample({ metric: 'cls', value: 0.1 }),
+			sample({ route: '/blog', value: 1500 })
+		]);
+
+		expect(aggregates).toEqual([
+			{ metric: 'cls', route: '/', device: 'desktop', p75: 0.1, count: 1 },
+			{ metric: 'lcp', route: '/', device: 'desktop', p75: 3000, count: 4 },
+			{ metric: 'lcp', route: '/', device: 'mobile', p75: 5000, count: 1 },
+			{ metric: 'lcp', route: '/blog', device: 'desktop', p75: 1500, count: 1 }
+		]);
+	});
+
+	it('is empty without samples', () => {
+		expect(aggregateVitals([])).toEqual([]);
+	});
+});
+
+describe('aggregateVitalsByDay', () => {
+	it('buckets samples by UTC day, oldest first', () => {
+		const points = aggregateVitalsByDay([
+			sample({ timestamp: Date.UTC(2026, 9, 2, 1), value: 2500 }),
+			sample({ timestamp: Date.UTC(2026, 9, 1, 23, 59), value: 1000 }),
+			sample({ timestamp: Date.UTC(2026, 9, 1, 0, 0), value: 2000 })
+		]);
+
+		expect(points).toEqual([
+			{ metric: 'lcp', day: '2026-10-01', p75: 2000, count: 2 },
+			{ metric: 'lcp', day: '2026-10-02', p75: 2500, count: 1 }
+		]);
+	});
+});
+
+describe('KVVitalsStore', () => {
+	// Records every call; getMany is the batched read Redis offers
+	function memoryKV() {
+		const data = new Map<string, string>();
+		const kv = {
+			get: vi.fn(async (key: string) => data.get(key) ?? null),
+			getMany: vi.fn(async (keys: string[]) => keys.map((key) => data.get(key) ?? null)),
+			put: vi.fn(async (key: string, value: string) => void data.set(key, value)),
+			list: vi.fn(async ({ prefix }: { prefix: string }) => ({
+				keys: [...data.keys()].filter((name) => name.startsWith(prefix)).map((name) => ({ name })),
+				list_complete: true
+			}))
+		} satisfies KVNamespaceLike;
+		return kv;
+	}
+
+	it('reads every beacon in the range in one batch', async () => {
+		const kv = memoryKV();
+		const store = new KVVitalsStore(kv);
+		const day = 24 * 60 * 60 * 1000;
+		const first = Date.UTC(2026, 9, 1, 12);
+
+		await store.add([sample({ timestamp: first })]);
+		await store.add([sample({ timestamp: first, route: '/blog' })]);
+		await store.add([sample({ timestamp: first + day, metric: 'cls', value: 0.1 })]);
+
+		const samples = await store.query({ from: first - day, to: first + 2 * day });
+
+		expect(samples).toHaveLength(3);
+		expect(kv.get).not.toHaveBeenCalled();
+		expect(kv.getMany).toHaveBeenCalledTimes(1);
+		expect(kv.getMany.mock.calls[0][0]).toHaveLength(3);
+		expect(await store.query({ from: first - day, to: first + 2 * day, route: '/blog' })).toHaveLength(1);
+	});
+
+	it('falls back to one read per key without a batched read', async () => {
+		const { getMany: _, ...kv } = memoryKV();
+		const store = new KVVitalsStore(kv);
+
+		await store.add([sample()]);
+		expect(await store.query({ from: sample().timestamp - 1000, to: sample().timestamp })).toHaveLength(1);
+		expect(kv.get).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,162 @@
+/**
+ * What each service includes, the packages it comes in and what clients ask about it
+ */
+
+import type { ServiceDetail } from './types';
+import { defineServiceDetails } from './validate';
+
+export const serviceDetails: ServiceDetail[] = defineServiceDetails([
+  {
+    slug: 'web-design',
+    headline: 'Websites that load fast and sell harder',
+    intro:
+      'We design and build marketing sites that are quick on real phones, easy for your team to update and structured so search engines understand them.',
+    category: 'Web Design',
+    duration: '4-10 weeks',
+    deliverables: [
+      { title: 'Messaging and sitemap', description: 'A page-by-page plan built around what your customers need to hear.' },
+      { title: 'Custom design', description: 'Desktop and mobile designs for every template, reviewed with you before build.' },
+      { title: 'Performance-first build', description: 'Prerendered pages, optimized images and a Core Web Vitals budget checked on every release.' },
+      { title: 'Launch and handover', description: 'Redirects, analytics, search console setup and training for your team.' }
+    ],
+    tiers: [
+      {
+        name: 'Launch',
+        description: 'A focused site for a new or small business.',
+        features: ['Up to 6 pages', 'Mobile-first design', 'Contact form and analytics']
+      },
+      {
+        name: 'Growth',
+        description: 'A full marketing site with room to scale.',
+        features: ['Up to 20 pages', 'Blog and case studies', 'Structured data and SEO setup', 'Performance budget']
+      },
+      {
+        name: 'Care plan',
+        description: 'Updates, monitoring and improvements after launch.',
+        features: ['Content updates', 'Uptime and Web Vitals monitoring', 'Quarterly improvement sprint']
+      }
+    ],
+    faqs: [
+      { question: 'How long does a new website take?', answer: 'Most sites launch in four to ten weeks, depending on the number of page templates and how quickly content is ready.' },
+      { question: 'Can we edit the site ourselves?', answer: 'Yes. We set up editing for the pages your team changes often and train you before launch.' },
+      { question: 'Will we lose our search rankings?', answer: 'No. We map every old URL to its new home with redirects and check rankings for the first weeks after launch.' }
+    ]
+  },
+  {
+    slug: 'social-media',
+    headline: 'Social media that builds an audience, not just a feed',
+    intro:
+      'We plan, create and publish content for the channels your customers actually use, then report on what it brings in.',
+    category: 'Social Media Marketing',
+    deliverables: [
+      { title: 'Channel strategy', description: 'Which platforms to focus on, what to post and how often.' },
+      { title: 'Content production', description: 'Photography, short-form video and copy in your brand voice.' },
+      { title: 'Community management', description: 'Replies to comments and messages within one business day.' },
+      { title: 'Monthly reporting', description: 'Reach, engagement and the enquiries social brought in.' }
+    ],
+    tiers: [
+      {
+        name: 'Essentials',
+        description: 'A steady presence on one or two channels.',
+        features: ['12 posts a month', 'Two channels', 'Monthly report']
+      },
+      {
+        name: 'Momentum',
+        description: 'Content and community management across your key channels.',
+        features: ['24 posts a month', 'Short-form video', 'Community management', 'Paid boost management']
+      }
+    ],
+    faqs: [
+      { question: 'Do we need to be on every platform?', answer: 'No. We pick the one to three channels where your customers spend time and do those well.' },
+      { question: 'Who approves the content?', answer: 'You do. We share a monthly calendar for approval before anything is published.' }
+    ]
+  },
+  {
+    slug: 'brand-strategy',
+    headline: 'A brand your customers can pick out of a lineup',
+    intro:
+      'We help you decide who you serve, what you promise and how you sound, then turn that into a visual identity your whole team can use.',
+    category: 'Brand Strategy',
+    duration: '3-6 weeks',
+    deliverables: [
+      { title: 'Positioning workshop', description: 'A half-day session to agree your audience, promise and proof points.' },
+      { title: 'Messaging guide', description: 'Your positioning statement, key messages and tone of voice.' },
+      { title: 'Visual identity', description: 'Logo refinements, colour palette, typography and imagery direction.' },
+      { title: 'Brand guidelines', description: 'A practical guide your team and suppliers can follow.' }
+    ],
+    tiers: [
+      {
+        name: 'Messaging',
+        description: 'Positioning and messaging without a visual refresh.',
+        features: ['Positioning workshop', 'Messaging guide', 'Homepage copy']
+      },
+      {
+        name: 'Full brand',
+        description: 'Strategy, messaging and a complete visual identity.',
+        features: ['Everything in Messaging', 'Visual identity', 'Brand guidelines', 'Launch templates']
+      }
+    ],
+    faqs: [
+      { question: 'Do we need a new logo?', answer: 'Often not. Many brands need clearer messaging and more consistent use of what they already have.' },
+      { question: 'Who should attend the workshop?', answer: 'The owner or leadership team, plus whoever talks to customers most often.' }
+    ]
+  },
+  {
+    slug: 'seo',
+    headline: 'Get found by the customers already searching for you',
+    intro:
+      'Technical fixes, content and local search work that grows qualified organic traffic month after month.',
+    category: 'Search Engine Optimization',
+    deliverables: [
+      { title: 'Technical audit', description: 'Crawlability, Core Web Vitals, structured data and indexing issues, prioritized.' },
+      { title: 'Keyword and content plan', description: 'The searches worth winning and the pages needed to win them.' },
+      { title: 'Local search', description: 'Business profile, citations and review programme for location-based searches.' },
+      { title: 'Monthly reporting', description: 'Rankings, organic traffic and the leads it produced.' }
+    ],
+    tiers: [
+      {
+        name: 'Audit',
+        description: 'A one-off technical and content audit with a prioritized fix list.',
+        features: ['Technical audit', 'Competitor review', '90-day action plan']
+      },
+      {
+        name: 'Ongoing SEO',
+        description: 'Continuous technical, content and local search work.',
+        features: ['Everything in Audit', 'Two optimized pages a month', 'Local search management', 'Monthly reporting']
+      }
+    ],
+    faqs: [
+      { question: 'How long until we see results?', answer: 'Technical fixes can show up within weeks. Content and local search usually take three to six months to compound.' },
+      { question: 'Do you guarantee first place?', answer: 'No one can honestly guarantee rankings. We commit to the work and report on the traffic and leads it brings.' }
+    ]
+  },
+  {
+    slug: 'digital-marketing',
+    headline: 'Campaigns measured in leads, not likes',
+    intro:
+      'Paid search, paid social and email campaigns planned around your sales targets and tracked from click to customer.',
+    category: 'Digital Marketing',
+    deliverables: [
+      { title: 'Campaign strategy', description: 'Channels, budgets and targets tied to your sales goals.' },
+      { title: 'Ad creative and landing pages', description: 'Ads and pages built and tested together.' },
+      { title: 'Conversion tracking', description: 'Analytics and call tracking so every lead is attributed.' },
+      { title: 'Optimization', description: 'Weekly bid, audience and creative improvements.' }
+    ],
+    tiers: [
+      {
+        name: 'Launch',
+        description: 'One channel, set up properly and managed for three months.',
+        features: ['Single channel setup', 'Two landing pages', 'Conversion tracking']
+      },
+      {
+        name: 'Managed',
+        description: 'Ongoing multi-channel campaign management.',
+        features: ['Up to three channels', 'Creative testing', 'Weekly optimization', 'Monthly strategy call']
+      }
+    ],
+    faqs: [
+      { question: 'Is ad spend included in the price?', answer: 'No. Ad spend is paid directly to the platforms so you keep full control of your accounts.' },
+      { question: 'What budget do we need?', answer: 'We recommend at least 1,500 USD a month in ad spend per channel to get useful data quickly.' }
+    ]
+  }
+]);
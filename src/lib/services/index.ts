@@ -0,0 +1,70 @@
+/**
+ * Service catalog queries and SEO metadata for /services
+ */
+
+import { sitemapOptions } from '$lib/config/routes';
+import { site } from '$lib/config/site';
+import type { PublicPage } from '$lib/seo/pages';
+import { buildFaqPage } from '$lib/seo/schema';
+import type { SEOMeta } from '$lib/seo/utils';
+import { filterCaseStudies, getCaseStudies, type CaseStudy } from '$lib/work';
+import { serviceDetails } from './catalog';
+import type { CatalogService } from './types';
+
+export * from './types';
+
+/**
+ * Every service with its catalog detail, in site.services order
+ */
+export function getServices(): CatalogService[] {
+  return site.services.map((service) => ({
+    ...service,
+    ...serviceDetails.find((detail) => detail.slug === service.slug)!
+  }));
+}
+
+export function getService(slug: string): CatalogService | undefined {
+  return getServices().find((service) => service.slug === slug);
+}
+
+export function getRelatedCaseStudies(service: CatalogService, limit: number = 3): CaseStudy[] {
+  return filterCaseStudies(getCaseStudies(), { service: service.slug }).slice(0, limit);
+}
+
+/**
+ * SEO metadata for a service page, feeding Service and FAQPage JSON-LD
+ */
+export function getServiceMeta(service: CatalogService): SEOMeta {
+  return {
+    title: service.name,
+    description: service.intro,
+    type: 'service',
+    service: {
+      category: service.category,
+      duration: service.duration,
+      // No offers: packages are quoted per project, so there are no prices to publish
+      areaServed: service.areaServed
+    },
+    structuredData: [buildFaqPage(service.faqs)]
+  };
+}
+
+export const servicesIndexMeta: SEOMeta = {
+  title: 'Services',
+  description: 'Web design, social media, brand strategy, SEO and digital marketing from Tait Media Solutions, with clear deliverables and packages quoted to fit.'
+};
+
+/**
+ * The /services index and service pages for the sitemap
+ */
+export function getServicePages(): PublicPage[] {
+  return [
+    { pathname: '/services', meta: servicesIndexMeta, ...sitemapOptions('/services') },
+    ...getServices().map((service) => ({
+      pathname: `/services/${service.slug}`,
+      meta: getServiceMeta(service),
+      priority: 0.8,
+      changefreq: 'monthly' as const
+    }))
+  ];
+}
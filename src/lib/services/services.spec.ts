@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { site } from '$lib/config/site';
+import { validateSchema } from '$lib/seo/schema';
+import { generatePageSchemas, generateServiceSchema } from '$lib/seo/utils';
+import { serviceDetails } from './catalog';
+import { getServiceMeta, getServicePages, getServices } from './index';
+import { validateServiceDetails } from './validate';
+
+describe('service catalog', () => {
+	it('describes every site service', () => {
+		expect(validateServiceDetails(serviceDetails)).toEqual([]);
+		expect(getServices().map((service) => service.slug)).toEqual(site.services.map((service) => service.slug));
+	});
+
+	it('reports missing entries, unknown slugs and empty packages', () => {
+		const [detail] = serviceDetails;
+		const issues = validateServiceDetails(
+			[{ ...detail, slug: 'astrology', tiers: [{ ...detail.tiers[0], features: [] }] }],
+			[detail.slug]
+		);
+
+		expect(issues).toEqual([
+			'astrology: is not in site.services',
+			`astrology: tier "${detail.tiers[0].name}" needs at least one feature`,
+			`${detail.slug}: has no catalog entry`
+		]);
+	});
+});
+
+describe('Service JSON-LD', () => {
+	it('takes area served from the data and publishes no prices', () => {
+		const [service] = getServices();
+		const schema = generateServiceSchema(getServiceMeta(service), site, `/services/${service.slug}`)!;
+
+		expect(schema.areaServed).toEqual([{ '@type': 'Country', name: 'United States' }]);
+		for (const offer of schema.hasOfferCatalog?.itemListElement ?? []) {
+			expect(offer).not.toHaveProperty('price');
+		}
+	});
+
+	it('lets a service narrow the area it serves', () => {
+		const [service] = getServices();
+		const local = { ...service, areaServed: [{ type: 'City' as const, name: 'San Francisco' }] };
+		const schema = generateServiceSchema(getServiceMeta(local), site, `/services/${service.slug}`)!;
+
+		expect(schema.areaServed).toEqual([{ '@type': 'City', name: 'San Francisco' }]);
+	});
+
+	it.each(getServicePages().map((page) => [page.pathname, page] as const))('%s has valid structured data', (pathname, page) => {
+		const schemas = generatePageSchemas(page.meta, site, pathname);
+
+		if (pathname !== '/services') {
+			expect(schemas.map((schema) => schema['@type'])).toEqual(expect.arrayContaining(['Service', 'FAQPage']));
+		}
+		for (const schema of schemas) {
+			expect(validateSchema(schema)).toEqual([]);
+		}
+	});
+});
@@ -0,0 +1,39 @@
+/**
+ * Service catalog model for /services
+ * Names and one-line descriptions live in site.services; this is the detail behind them
+ */
+
+import type { SitePlace, SiteService } from '$lib/config/site';
+
+export interface ServiceDeliverable {
+  title: string;
+  description: string;
+}
+
+export interface ServiceTier {
+  name: string;
+  description: string;
+  features: string[];
+}
+
+export interface ServiceFaq {
+  question: string;
+  answer: string;
+}
+
+export interface ServiceDetail {
+  slug: string;
+  headline: string;
+  intro: string;
+  category: string;
+  // Typical engagement length, e.g. '4-8 weeks'
+  duration?: string;
+  deliverables: ServiceDeliverable[];
+  // Packages are quoted per project, so they carry no prices
+  tiers: ServiceTier[];
+  faqs: ServiceFaq[];
+  // Narrower than the organization's default area, when a service is local-only
+  areaServed?: SitePlace[];
+}
+
+export type CatalogService = SiteService & ServiceDetail;
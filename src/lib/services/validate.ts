@@ -0,0 +1,65 @@
+/**
+ * Validation for service catalog details
+ * Runs when catalog.ts is imported, so a gap in the catalog stops the build
+ */
+
+import { site } from '$lib/config/site';
+import type { ServiceDetail } from './types';
+
+export class ServiceCatalogError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid service catalog:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'ServiceCatalogError';
+  }
+}
+
+/**
+ * Collect every problem with the catalog, empty when every site service is fully described
+ */
+export function validateServiceDetails(
+  details: ServiceDetail[],
+  serviceSlugs: string[] = site.services.map(({ slug }) => slug)
+): string[] {
+  const issues: string[] = [];
+  const described = new Set<string>();
+
+  for (const detail of details) {
+    const check = (ok: boolean, message: string) => {
+      if (!ok) issues.push(`${detail.slug}: ${message}`);
+    };
+
+    check(serviceSlugs.includes(detail.slug), 'is not in site.services');
+    check(!described.has(detail.slug), 'is described twice');
+    described.add(detail.slug);
+
+    for (const field of ['headline', 'intro', 'category'] as const) {
+      check(detail[field].trim().length > 0, `${field} is required`);
+    }
+    check(detail.deliverables.length > 0, 'needs at least one deliverable');
+    check(detail.tiers.length > 0, 'needs at least one package');
+    for (const tier of detail.tiers) {
+      check(tier.features.length > 0, `tier "${tier.name}" needs at least one feature`);
+    }
+    check(detail.faqs.length > 0, 'needs at least one FAQ');
+    for (const faq of detail.faqs) {
+      check(faq.question.trim().length > 0 && faq.answer.trim().length > 0, 'FAQs need a question and an answer');
+    }
+  }
+
+  for (const slug of serviceSlugs) {
+    if (!described.has(slug)) issues.push(`${slug}: has no catalog entry`);
+  }
+
+  return issues;
+}
+
+/**
+ * Validate catalog details and return them unchanged, throwing ServiceCatalogError on any gap
+ */
+export function defineServiceDetails(details: ServiceDetail[]): ServiceDetail[] {
+  const issues = validateServiceDetails(details);
+  if (issues.length > 0) {
+    throw new ServiceCatalogError(issues);
+  }
+  return details;
+}
@@ -0,0 +1,10 @@
+/**
+ * Case studies shown on /work and featured on the homepage
+ */
+
+import type { CaseStudy } from './types';
+import { defineCaseStudies } from './validate';
+
+// Only real, client-approved work goes here. While the list is empty /work stays hidden
+// (see the route manifest) and the homepage leaves out its "Our Work" section.
+export const caseStudies: CaseStudy[] = defineCaseStudies([]);
@@ -0,0 +1,147 @@
+/**
+ * Case study queries, KPI helpers and SEO metadata for /work
+ */
+
+import { sitemapOptions } from '$lib/config/routes';
+import { site } from '$lib/config/site';
+import type { PublicPage } from '$lib/seo/pages';
+import { buildCreativeWork, buildReview } from '$lib/seo/schema';
+import { absoluteUrl, generateCanonicalUrl, type SEOMeta } from '$lib/seo/utils';
+import { caseStudies } from './case-studies';
+import type { CaseStudy, CaseStudyKpi } from './types';
+
+export * from './types';
+
+export interface CaseStudyFilters {
+  service?: string;
+  industry?: string;
+}
+
+export interface FilterOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * Case studies newest first
+ */
+export function getCaseStudies(studies: CaseStudy[] = caseStudies): CaseStudy[] {
+  return [...studies].sort((a, b) => b.date.localeCompare(a.date));
+}
+
+export function getCaseStudy(slug: string): CaseStudy | undefined {
+  return caseStudies.find((study) => study.slug === slug);
+}
+
+export function getFeaturedCaseStudies(limit: number = 3): CaseStudy[] {
+  return getCaseStudies().filter((study) => study.featured).slice(0, limit);
+}
+
+/**
+ * Narrow case studies to a service slug and/or industry
+ */
+export function filterCaseStudies(studies: CaseStudy[], filters: CaseStudyFilters): CaseStudy[] {
+  return studies.filter(
+    (study) =>
+      (!filters.service || study.services.includes(filters.service)) &&
+      (!filters.industry || study.industry === filters.industry)
+  );
+}
+
+/**
+ * Services and industries that at least one case study covers
+ */
+export function getFilterOptions(studies: CaseStudy[] = caseStudies): { services: FilterOption[]; industries: FilterOption[] } {
+  const used = new Set(studies.flatMap((study) => study.services));
+  const industries = [...new Set(studies.map((study) => study.industry))].sort();
+
+  return {
+    services: site.services
+      .filter((service) => used.has(service.slug))
+      .map((service) => ({ value: service.slug, label: service.name })),
+    industries: industries.map((industry) => ({ value: industry, label: industry }))
+  };
+}
+
+export function serviceName(slug: string): string {
+  return site.services.find((service) => service.slug === slug)?.name ?? slug;
+}
+
+/**
+ * Relative change from before to after, as a whole percentage
+ */
+export function kpiChange(kpi: CaseStudyKpi): number {
+  if (kpi.before === 0) return 0;
+  return Math.round(((kpi.after - kpi.before) / Math.abs(kpi.before)) * 100);
+}
+
+export function isKpiImprovement(kpi: CaseStudyKpi): boolean {
+  return (kpi.higherIsBetter ?? true) ? kpi.after > kpi.before : kpi.after < kpi.before;
+}
+
+export function formatKpiValue(value: number, unit: string = ''): string {
+  return `${value.toLocaleString('en-US')}${unit}`;
+}
+
+/**
+ * SEO metadata for a case study, including its CreativeWork JSON-LD
+ */
+export function getCaseStudyMeta(study: CaseStudy): SEOMeta {
+  const pathname = `/work/${study.slug}`;
+
+  return {
+    title: study.title,
+    description: study.summary,
+    image: study.gallery[0]?.src,
+    modifiedTime: study.date,
+    structuredData: [
+      buildCreativeWork({
+        name: study.title,
+        description: study.summary,
+        url: generateCanonicalUrl(pathname, site.url),
+        image: study.gallery.map((media) => absoluteUrl(media.src, site.url)),
+        creator: { '@type': 'Organization', name: site.title, url: site.url },
+        about: { '@type': 'Organization', name: study.client },
+        dateCreated: study.date,
+        genre: study.industry,
+        keywords: study.services.map(serviceName),
+        review:
+          study.testimonial?.rating !== undefined
+            ? buildReview({
+                author: study.testimonial.author,
+                rating: study.testimonial.rating,
+                body: study.testimonial.quote,
+                itemReviewed: site.title
+              })
+            : undefined
+      })
+    ]
+  };
+}
+
+export const workIndexMeta: SEOMeta = {
+  title: 'Our Work',
+  description: 'Case studies from Tait Media Solutions: the websites, search and marketing campaigns we have shipped, with the numbers before and after.'
+};
+
+/**
+ * The /work index and case study pages for the sitemap, none while there are no case studies
+ */
+export function getWorkPages(studies: CaseStudy[] = getCaseStudies()): PublicPage[] {
+  if (studies.length === 0) return [];
+
+  return [
+    {
+      pathname: '/work',
+      meta: { ...workIndexMeta, modifiedTime: studies[0]?.date },
+      ...sitemapOptions('/work')
+    },
+    ...studies.map((study) => ({
+      pathname: `/work/${study.slug}`,
+      meta: getCaseStudyMeta(study),
+      priority: 0.7,
+      changefreq: 'yearly' as const,
+      images: study.gallery.map((media) => ({ loc: media.src, title: media.alt, caption: media.caption }))
+    }))
+  ];
+}
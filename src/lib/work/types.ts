@@ -0,0 +1,50 @@
+/**
+ * Case study model for /work and the homepage "Our Work" section
+ */
+
+export interface CaseStudyKpi {
+  label: string;
+  before: number;
+  after: number;
+  // Appended to values when displayed, e.g. '%', 's' or ' leads'
+  unit?: string;
+  // False for metrics like load time or cost per lead where lower wins
+  higherIsBetter?: boolean;
+}
+
+export interface CaseStudyMedia {
+  src: string;
+  alt: string;
+  width: number;
+  height: number;
+  caption?: string;
+}
+
+export interface CaseStudyTestimonial {
+  quote: string;
+  author: string;
+  role?: string;
+  // 1-5 stars, only shown in Review JSON-LD when present
+  rating?: number;
+}
+
+export interface CaseStudy {
+  slug: string;
+  title: string;
+  client: string;
+  industry: string;
+  // Slugs from site.services
+  services: string[];
+  summary: string;
+  // Launch date as YYYY-MM-DD
+  date: string;
+  featured: boolean;
+  challenge: string;
+  approach: string;
+  outcome: string;
+  kpis: CaseStudyKpi[];
+  gallery: CaseStudyMedia[];
+  testimonial?: CaseStudyTestimonial;
+  // The live project, when the client is happy for us to link it
+  url?: string;
+}
@@ -0,0 +1,76 @@
+/**
+ * Validation for case study data
+ * Runs when case-studies.ts is imported, so a bad entry stops the build
+ */
+
+import { site } from '$lib/config/site';
+import type { CaseStudy } from './types';
+
+const SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export class CaseStudyError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid case studies:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'CaseStudyError';
+  }
+}
+
+/**
+ * Collect every problem with the case studies, empty when they are all valid
+ */
+export function validateCaseStudies(
+  studies: CaseStudy[],
+  serviceSlugs: string[] = site.services.map(({ slug }) => slug)
+): string[] {
+  const issues: string[] = [];
+  const slugs = new Set<string>();
+
+  for (const study of studies) {
+    const at = study.slug || '(missing slug)';
+    const check = (ok: boolean, message: string) => {
+      if (!ok) issues.push(`${at}: ${message}`);
+    };
+
+    check(SLUG.test(study.slug), 'slug must be lowercase kebab-case');
+    check(!slugs.has(study.slug), 'slug is used twice');
+    slugs.add(study.slug);
+
+    for (const field of ['title', 'client', 'industry', 'summary', 'challenge', 'approach', 'outcome'] as const) {
+      check(study[field].trim().length > 0, `${field} is required`);
+    }
+    check(/^\d{4}-\d{2}-\d{2}$/.test(study.date) && !Number.isNaN(Date.parse(study.date)), 'date must be YYYY-MM-DD');
+
+    check(study.services.length > 0, 'needs at least one service');
+    for (const service of study.services) {
+      check(serviceSlugs.includes(service), `unknown service "${service}"`);
+    }
+
+    for (const kpi of study.kpis) {
+      check(Number.isFinite(kpi.before) && Number.isFinite(kpi.after), `KPI "${kpi.label}" needs numeric before and after values`);
+    }
+
+    check(study.gallery.length > 0, 'gallery needs at least one image');
+    for (const media of study.gallery) {
+      check(media.alt.trim().length > 0, `gallery image ${media.src} needs alt text`);
+      check(media.width > 0 && media.height > 0, `gallery image ${media.src} needs its dimensions`);
+    }
+
+    const rating = study.testimonial?.rating;
+    if (rating !== undefined) {
+      check(Number.isInteger(rating) && rating >= 1 && rating <= 5, 'testimonial rating must be 1-5');
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate case studies and return them unchanged, throwing CaseStudyError when any is invalid
+ */
+export function defineCaseStudies(studies: CaseStudy[]): CaseStudy[] {
+  const issues = validateCaseStudies(studies);
+  if (issues.length > 0) {
+    throw new CaseStudyError(issues);
+  }
+  return studies;
+}
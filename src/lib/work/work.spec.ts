@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { site } from '$lib/config/site';
+import { validateSchema } from '$lib/seo/schema';
+import { generatePageSchemas } from '$lib/seo/utils';
+import { caseStudies } from './case-studies';
+import { filterCaseStudies, getFilterOptions, getWorkPages, isKpiImprovement, kpiChange, type CaseStudy } from './index';
+import { validateCaseStudies } from './validate';
+
+const study = (slug: string, industry: string, services: string[]): CaseStudy => ({
+	slug,
+	title: `Work for ${slug}`,
+	client: slug,
+	industry,
+	services,
+	summary: 'What we did',
+	date: '2025-01-01',
+	featured: false,
+	challenge: 'The problem',
+	approach: 'The plan',
+	outcome: 'The result',
+	kpis: [{ label: 'Leads', before: 10, after: 20 }],
+	gallery: [{ src: '/logo.png', alt: 'Logo', width: 1024, height: 1024 }],
+	testimonial: { quote: 'Great', author: 'A client', role: 'Owner', rating: 5 }
+});
+
+const fixtures = [
+	study('clinic', 'Healthcare', ['seo', 'digital-marketing']),
+	study('shop', 'Retail', ['web-design', 'seo']),
+	study('studio', 'Retail', ['brand-strategy'])
+];
+
+describe('case studies', () => {
+	it('ship valid data', () => {
+		expect(validateCaseStudies(caseStudies)).toEqual([]);
+		expect(validateCaseStudies(fixtures)).toEqual([]);
+	});
+
+	it('reject unknown services, duplicate slugs and missing alt text', () => {
+		const [first] = fixtures;
+		const issues = validateCaseStudies([
+			first,
+			{ ...first, services: ['astrology'], gallery: [{ ...first.gallery[0], alt: '' }] }
+		]);
+
+		expect(issues).toEqual([
+			`${first.slug}: slug is used twice`,
+			`${first.slug}: unknown service "astrology"`,
+			`${first.slug}: gallery image ${first.gallery[0].src} needs alt text`
+		]);
+	});
+
+	it('filter by service and industry together', () => {
+		const bySeo = filterCaseStudies(fixtures, { service: 'seo' });
+		const bySeoInRetail = filterCaseStudies(fixtures, { service: 'seo', industry: 'Retail' });
+
+		expect(bySeo.map((study) => study.slug)).toEqual(['clinic', 'shop']);
+		expect(bySeoInRetail.map((study) => study.slug)).toEqual(['shop']);
+		expect(filterCaseStudies(fixtures, {})).toHaveLength(fixtures.length);
+	});
+
+	it('only offers filters that match something', () => {
+		const { services, industries } = getFilterOptions([fixtures[0]]);
+
+		expect(services.map((option) => option.value).sort()).toEqual(['digital-marketing', 'seo']);
+		expect(industries).toEqual([{ value: 'Healthcare', label: 'Healthcare' }]);
+	});
+});
+
+describe('KPIs', () => {
+	it('treat a drop as an improvement when lower is better', () => {
+		const loadTime = { label: 'LCP', before: 6.4, after: 0.9, unit: 's', higherIsBetter: false };
+
+		expect(kpiChange(loadTime)).toBe(-86);
+		expect(isKpiImprovement(loadTime)).toBe(true);
+		expect(isKpiImprovement({ label: 'Leads', before: 10, after: 8 })).toBe(false);
+	});
+});
+
+describe('work pages', () => {
+	it('are left out of the sitemap while there are no case studies', () => {
+		expect(getWorkPages([])).toEqual([]);
+	});
+
+	it.each(getWorkPages(fixtures).map((page) => [page.pathname, page] as const))('%s has valid structured data', (pathname, page) => {
+		const schemas = generatePageSchemas(page.meta, site, pathname);
+
+		if (pathname !== '/work') {
+			expect(schemas.map((schema) => schema['@type'])).toContain('CreativeWork');
+		}
+		for (const schema of schemas) {
+			expect(validateSchema(schema)).toEqual([]);
+		}
+	});
+});
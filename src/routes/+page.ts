@@ -0,0 +1,14 @@
+import type { PageLoad } from './$types';
+import { getPageMeta } from '$lib/seo/pages';
+import { getServices } from '$lib/services';
+import { getFeaturedCaseStudies } from '$lib/work';
+
+export const prerender = true;
+
+export const load: PageLoad = () => {
+  return {
+    meta: getPageMeta('/'),
+    services: getServices().slice(0, 3),
+    featuredWork: getFeaturedCaseStudies()
+  };
+};
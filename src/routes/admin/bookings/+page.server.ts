@@ -0,0 +1,13 @@
+import type { PageServerLoad } from './$types';
+import { bookingConfig } from '$lib/booking';
+import { getBookingStore, upcomingBookings } from '$lib/server/booking';
+
+export const prerender = false;
+
+export const load: PageServerLoad = async ({ platform }) => {
+  return {
+    meta: { title: 'Bookings | Admin', noindex: true },
+    timeZone: bookingConfig.timeZone,
+    bookings: upcomingBookings(await getBookingStore(platform).list())
+  };
+};
@@ -0,0 +1,63 @@
+import type { PageServerLoad } from './$types';
+import { checkVitalsBudget, createMetric, type WebVitalsReport } from '$lib/performance';
+import {
+  aggregateVitals,
+  aggregateVitalsByDay,
+  getVitalsStore,
+  type DeviceClass
+} from '$lib/server/vitals';
+
+export const prerender = false;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 28;
+
+/**
+ * Read a YYYY-MM-DD search param, falling back when missing or malformed
+ */
+function parseDay(value: string | null, fallback: string): string {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)) ? value : fallback;
+}
+
+export const load: PageServerLoad = async ({ url, platform }) => {
+  const today = new Date().toISOString().slice(0, 10);
+  const defaultFrom = new Date(Date.now() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS).toISOString().slice(0, 10);
+
+  const from = parseDay(url.searchParams.get('from'), defaultFrom);
+  const to = parseDay(url.searchParams.get('to'), today);
+  const deviceParam = url.searchParams.get('device');
+  const device: DeviceClass | 'all' = deviceParam === 'mobile' || deviceParam === 'desktop' ? deviceParam : 'all';
+
+  const samples = await getVitalsStore(platform).query({
+    from: Date.parse(from),
+    to: Date.parse(to) + DAY_MS - 1,
+    device: device === 'all' ? undefined : device
+  });
+
+  // Budgets are judged per route and device class on p75 field data
+  const reports = new Map<string, { route: string; device: DeviceClass; report: WebVitalsReport; count: number }>();
+  for (const row of aggregateVitals(samples)) {
+    const id = `${row.route}|${row.device}`;
+    let entry = reports.get(id);
+    if (!entry) {
+      entry = { route: row.route, device: row.device, report: {}, count: 0 };
+      reports.set(id, entry);
+    }
+    entry.report[row.metric] = createMetric(row.metric, row.p75);
+    entry.count = Math.max(entry.count, row.count);
+  }
+
+  const failingRoutes = [...reports.values()]
+    .map(entry => ({ ...entry, ...checkVitalsBudget(entry.report) }))
+    .filter(entry => !entry.passed)
+    .map(({ route, device, count, violations }) => ({ route, device, count, violations }))
+    .sort((a, b) => b.violations.length - a.violations.length || a.route.localeCompare(b.route));
+
+  return {
+    meta: { title: 'Web Vitals | Admin', noindex: true },
+    filters: { from, to, device },
+    sampleCount: samples.length,
+    trend: aggregateVitalsByDay(samples),
+    failingRoutes
+  };
+};
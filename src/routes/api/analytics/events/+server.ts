@@ -0,0 +1,24 @@
+import { error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { EventPayloadError, MAX_EVENT_BYTES, getEventStore, parseEventPayload } from '$lib/server/events';
+
+export const POST: RequestHandler = async ({ request, platform }) => {
+  const declaredLength = Number(request.headers.get('content-length'));
+  if (declaredLength > MAX_EVENT_BYTES) {
+    error(413, 'Payload too large');
+  }
+
+  let event;
+  try {
+    event = parseEventPayload(await request.text());
+  } catch (e) {
+    if (e instanceof EventPayloadError) {
+      error(e.status, e.message);
+    }
+    throw e;
+  }
+
+  await getEventStore(platform).add(event);
+
+  return new Response(null, { status: 204 });
+};
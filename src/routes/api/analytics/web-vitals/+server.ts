@@ -0,0 +1,78 @@
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+  MAX_PAYLOAD_BYTES,
+  METRIC_NAMES,
+  VitalsPayloadError,
+  getVitalsStore,
+  parseVitalsPayload,
+  readVitalsPayload,
+  queryVitalsAggregates,
+  type DeviceClass,
+  type MetricName,
+  type VitalsQuery
+} from '$lib/server/vitals';
+import { adminChallenge } from '$lib/server/admin-auth';
+
+export const POST: RequestHandler = async ({ request, platform }) => {
+  const declaredLength = Number(request.headers.get('content-length'));
+  if (declaredLength > MAX_PAYLOAD_BYTES) {
+    error(413, 'Payload too large');
+  }
+
+  let samples;
+  try {
+    samples = parseVitalsPayload(await readVitalsPayload(request.body));
+  } catch (e) {
+    if (e instanceof VitalsPayloadError) {
+      error(e.status, e.message);
+    }
+    throw e;
+  }
+
+  await getVitalsStore(platform).add(samples);
+
+  return new Response(null, { status: 204 });
+};
+
+/**
+ * p75 per metric, route and device class, optionally narrowed with
+ * ?from=&to= (ISO dates or epoch ms), ?route=, ?device= and ?metric=
+ * Admin only, with the same basic auth as /admin.
+ */
+export const GET: RequestHandler = async ({ url, platform, locals }) => {
+  if (!locals.admin) {
+    return adminChallenge();
+  }
+
+  const query: VitalsQuery = {};
+
+  const parseTime = (value: string | null) => {
+    if (value === null) return undefined;
+    const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    if (Number.isNaN(time)) error(400, `Invalid date: ${value}`);
+    return time;
+  };
+
+  query.from = parseTime(url.searchParams.get('from'));
+  query.to = parseTime(url.searchParams.get('to'));
+
+  const route = url.searchParams.get('route');
+  if (route) query.route = route;
+
+  const device = url.searchParams.get('device');
+  if (device) {
+    if (device !== 'mobile' && device !== 'desktop') error(400, `Invalid device: ${device}`);
+    query.device = device as DeviceClass;
+  }
+
+  const metric = url.searchParams.get('metric');
+  if (metric) {
+    if (!METRIC_NAMES.includes(metric as MetricName)) error(400, `Invalid metric: ${metric}`);
+    query.metric = metric as MetricName;
+  }
+
+  return json(await queryVitalsAggregates(getVitalsStore(platform), query), {
+    headers: { 'Cache-Control': 'no-store' }
+  });
+};
@@ -0,0 +1,53 @@
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { detectSpam, getFormSecret, getMailTransport, signFormStart } from '$lib/server/contact';
+import { LeadPayloadError, MAX_LEAD_BYTES, getLeadStore, parseLeadPayload, receiveLead } from '$lib/server/leads';
+import { RateLimiter } from '$lib/server/rate-limit';
+
+// Three completed flows per address every ten minutes
+const limiter = new RateLimiter(3, 10 * 60 * 1000);
+
+/**
+ * A signed render time for the flow to send back, since the page it opens on is prerendered
+ */
+export const GET: RequestHandler = async () => {
+  return json({ startedAt: signFormStart(getFormSecret()) }, { headers: { 'Cache-Control': 'no-store' } });
+};
+
+export const POST: RequestHandler = async ({ request, platform, getClientAddress }) => {
+  const declaredLength = Number(request.headers.get('content-length'));
+  if (declaredLength > MAX_LEAD_BYTES) {
+    error(413, 'Payload too large');
+  }
+
+  const { allowed, retryAfter } = limiter.consume(getClientAddress());
+  if (!allowed) {
+    return json(
+      { message: 'Too many submissions - please try again later.' },
+      { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    );
+  }
+
+  let submission;
+  try {
+    submission = parseLeadPayload(await request.text());
+  } catch (e) {
+    if (e instanceof LeadPayloadError) {
+      error(e.status, e.message);
+    }
+    throw e;
+  }
+
+  const { lead } = submission;
+
+  // Bots get the same reply as people, so they learn nothing from it
+  const spam = detectSpam(submission, getFormSecret());
+  if (spam) {
+    console.warn(`[leads] Dropped submission: ${spam}`);
+    return json({ id: lead.id, tier: lead.tier }, { status: 201 });
+  }
+
+  await receiveLead(lead, { store: getLeadStore(platform), transport: getMailTransport() });
+
+  return json({ id: lead.id, tier: lead.tier }, { status: 201 });
+};
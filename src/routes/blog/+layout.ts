@@ -0,0 +1,2 @@
+// Posts only change on deploy, so every blog page is static HTML
+export const prerender = true;
@@ -0,0 +1,4 @@
+import type { PageServerLoad } from './$types';
+import { loadBlogListing } from '$lib/server/blog';
+
+export const load: PageServerLoad = () => loadBlogListing(1);
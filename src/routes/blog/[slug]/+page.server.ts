@@ -0,0 +1,17 @@
+import { error } from '@sveltejs/kit';
+import type { EntryGenerator, PageServerLoad } from './$types';
+import { getPost, getPostMeta, getPosts, getRelatedPosts, renderPostBody } from '$lib/server/blog';
+
+export const entries: EntryGenerator = () => getPosts().map((post) => ({ slug: post.slug }));
+
+export const load: PageServerLoad = async ({ params }) => {
+  const post = getPost(params.slug);
+  if (!post) error(404, 'Post not found');
+
+  return {
+    post,
+    html: await renderPostBody(post),
+    related: getRelatedPosts(post),
+    meta: getPostMeta(post)
+  };
+};
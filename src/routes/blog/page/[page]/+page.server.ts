@@ -0,0 +1,17 @@
+import { redirect } from '@sveltejs/kit';
+import type { EntryGenerator, PageServerLoad } from './$types';
+import { blogPagePath, paginate } from '$lib/blog';
+import { getPosts, loadBlogListing } from '$lib/server/blog';
+
+// Page 1 is /blog itself
+export const entries: EntryGenerator = () => {
+  const { totalPages } = paginate(getPosts(), 1);
+  return Array.from({ length: Math.max(0, totalPages - 1) }, (_, index) => ({ page: String(index + 2) }));
+};
+
+export const load: PageServerLoad = ({ params }) => {
+  const page = Number(params.page);
+  if (page === 1) redirect(308, blogPagePath(1));
+
+  return loadBlogListing(page);
+};
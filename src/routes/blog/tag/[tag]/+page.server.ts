@@ -0,0 +1,16 @@
+import { error } from '@sveltejs/kit';
+import type { EntryGenerator, PageServerLoad } from './$types';
+import { getPostsByTag, getTagMeta, getTags } from '$lib/server/blog';
+
+export const entries: EntryGenerator = () => getTags().map(({ slug }) => ({ tag: slug }));
+
+export const load: PageServerLoad = ({ params }) => {
+  const tag = getTags().find(({ slug }) => slug === params.tag);
+  if (!tag) error(404, 'Tag not found');
+
+  return {
+    tag,
+    posts: getPostsByTag(tag.slug),
+    meta: getTagMeta(tag)
+  };
+};
@@ -0,0 +1,49 @@
+import { fail, redirect } from '@sveltejs/kit';
+import { message, setError, superValidate } from 'sveltekit-superforms';
+import { zod } from 'sveltekit-superforms/adapters';
+import type { Actions, PageServerLoad } from './$types';
+import { bookingConfig, bookingSchema, computeSlots } from '$lib/booking';
+import { getPageMeta } from '$lib/seo/pages';
+import { bookDiscoveryCall, getBookingStore, SlotUnavailableError } from '$lib/server/booking';
+import { RateLimiter } from '$lib/server/rate-limit';
+
+// Slots change with every booking, so the page is rendered per request
+export const prerender = false;
+
+// Three bookings per address every hour
+const limiter = new RateLimiter(3, 60 * 60 * 1000);
+
+export const load: PageServerLoad = async ({ platform }) => {
+  return {
+    form: await superValidate(zod(bookingSchema)),
+    slots: computeSlots(bookingConfig, await getBookingStore(platform).list()),
+    timeZone: bookingConfig.timeZone,
+    slotMinutes: bookingConfig.slotMinutes,
+    meta: getPageMeta('/book')
+  };
+};
+
+export const actions: Actions = {
+  default: async ({ request, getClientAddress, platform }) => {
+    const form = await superValidate(request, zod(bookingSchema));
+    if (!form.valid) {
+      return fail(400, { form });
+    }
+
+    if (!limiter.consume(getClientAddress()).allowed) {
+      return message(form, { type: 'error', text: 'Too many bookings from your connection - please email us instead.' }, { status: 429 });
+    }
+
+    let id: string;
+    try {
+      ({ id } = await bookDiscoveryCall(getBookingStore(platform), form.data, { config: bookingConfig }));
+    } catch (e) {
+      if (e instanceof SlotUnavailableError) {
+        return setError(form, 'start', 'Sorry, that time was just taken. Please pick another.', { status: 409 });
+      }
+      throw e;
+    }
+
+    redirect(303, `/book/${id}`);
+  }
+};
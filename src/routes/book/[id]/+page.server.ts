@@ -0,0 +1,15 @@
+import { error } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import { getBookingStore } from '$lib/server/booking';
+
+export const prerender = false;
+
+export const load: PageServerLoad = async ({ params, platform }) => {
+  const booking = (await getBookingStore(platform).list()).find((candidate) => candidate.id === params.id);
+  if (!booking) error(404, 'Booking not found');
+
+  return {
+    booking: { id: booking.id, start: booking.start, end: booking.end, name: booking.name, timeZone: booking.timeZone },
+    meta: { title: 'Your call is booked', noindex: true }
+  };
+};
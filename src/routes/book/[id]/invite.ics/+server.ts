@@ -0,0 +1,20 @@
+import { error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { renderIcs } from '$lib/booking';
+import { site } from '$lib/config/site';
+import { bookingInvite, getBookingStore } from '$lib/server/booking';
+
+export const prerender = false;
+
+export const GET: RequestHandler = async ({ params, platform }) => {
+  const booking = (await getBookingStore(platform).list()).find((candidate) => candidate.id === params.id);
+  if (!booking) error(404, 'Booking not found');
+
+  return new Response(renderIcs(bookingInvite(booking), site.title), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="discovery-call.ics"',
+      'Cache-Control': 'private, no-store'
+    }
+  });
+};
@@ -0,0 +1,62 @@
+import { fail } from '@sveltejs/kit';
+import { message, superValidate } from 'sveltekit-superforms';
+import { zod } from 'sveltekit-superforms/adapters';
+import type { Actions, PageServerLoad } from './$types';
+import { contactSchema } from '$lib/contact/schema';
+import { getPageMeta } from '$lib/seo/pages';
+import { RateLimiter } from '$lib/server/rate-limit';
+import {
+  detectSpam,
+  getContactStore,
+  getFormSecret,
+  getMailTransport,
+  receiveContactSubmission,
+  signFormStart
+} from '$lib/server/contact';
+
+// The form carries the time it was rendered for the spam check, so it cannot be static HTML
+export const prerender = false;
+
+// Five submissions per address every ten minutes
+const limiter = new RateLimiter(5, 10 * 60 * 1000);
+
+export const load: PageServerLoad = async () => {
+  const form = await superValidate(zod(contactSchema));
+  form.data.startedAt = signFormStart(getFormSecret());
+
+  return { form, meta: getPageMeta('/contact') };
+};
+
+export const actions: Actions = {
+  default: async ({ request, getClientAddress, platform }) => {
+    const form = await superValidate(request, zod(contactSchema));
+    if (!form.valid) {
+      return fail(400, { form });
+    }
+
+    const { allowed, retryAfter } = limiter.consume(getClientAddress());
+    if (!allowed) {
+      return message(
+        form,
+        { type: 'error', text: `Too many messages - please try again in ${Math.ceil(retryAfter / 60)} minutes.` },
+        { status: 429 }
+      );
+    }
+
+    const success = { type: 'success', text: "Thanks - we'll reply within one business day." } as const;
+
+    // Bots get the same reply as people, so they learn nothing from it
+    const spam = detectSpam(form.data, getFormSecret());
+    if (spam) {
+      console.warn(`[contact] Dropped submission: ${spam}`);
+      return message(form, success);
+    }
+
+    await receiveContactSubmission(form.data, {
+      store: getContactStore(platform),
+      transport: getMailTransport()
+    });
+
+    return message(form, success);
+  }
+};
@@ -0,0 +1,15 @@
+import type { RequestHandler } from './$types';
+import { site } from '$lib/config/site';
+import { renderJsonFeed } from '$lib/seo/feeds';
+import { getFeedItems } from '$lib/server/feeds';
+
+export const prerender = true;
+
+export const GET: RequestHandler = async () => {
+  return new Response(renderJsonFeed(site, getFeedItems()), {
+    headers: {
+      'Content-Type': 'application/feed+json; charset=utf-8',
+      'Cache-Control': 'public, max-age=3600'
+    }
+  });
+};
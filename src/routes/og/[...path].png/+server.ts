@@ -0,0 +1,35 @@
+import { error } from '@sveltejs/kit';
+import type { EntryGenerator, RequestHandler } from './$types';
+import { site } from '$lib/config/site';
+import { OG_DEFAULT_CARD, ogImagePath, ogPathname } from '$lib/seo/og';
+import { ogCardFor, renderOgImage, type OgCard } from '$lib/server/og';
+import { getSitemapPages } from '$lib/server/sitemap';
+
+export const prerender = true;
+
+export const entries: EntryGenerator = () => [
+  { path: OG_DEFAULT_CARD },
+  ...getSitemapPages()
+    .filter((page) => !page.meta.noindex && !page.meta.image)
+    .map((page) => ({ path: ogImagePath(page.pathname).slice('/og/'.length, -'.png'.length) }))
+];
+
+export const GET: RequestHandler = async ({ params }) => {
+  let card: OgCard | undefined;
+  if (params.path === OG_DEFAULT_CARD) {
+    card = { title: site.services.map((service) => service.name).join(' · ') };
+  } else {
+    const page = getSitemapPages().find((candidate) => candidate.pathname === ogPathname(params.path));
+    if (page) card = ogCardFor(page, site);
+  }
+  if (!card) error(404, 'No card for this page');
+
+  const png = await renderOgImage(card, site);
+
+  return new Response(new Uint8Array(png), {
+    headers: {
+      'Content-Type': 'image/png',
+      'Cache-Control': 'public, max-age=86400'
+    }
+  });
+};
@@ -0,0 +1,15 @@
+import type { RequestHandler } from './$types';
+import { site } from '$lib/config/site';
+import { renderRss } from '$lib/seo/feeds';
+import { getFeedItems } from '$lib/server/feeds';
+
+export const prerender = true;
+
+export const GET: RequestHandler = async () => {
+  return new Response(renderRss(site, getFeedItems()), {
+    headers: {
+      'Content-Type': 'application/rss+xml; charset=utf-8',
+      'Cache-Control': 'public, max-age=3600'
+    }
+  });
+};
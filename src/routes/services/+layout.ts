@@ -0,0 +1,2 @@
+// The catalog only changes on deploy, so every service page is static HTML
+export const prerender = true;
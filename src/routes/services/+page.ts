@@ -0,0 +1,9 @@
+import type { PageLoad } from './$types';
+import { getServices, servicesIndexMeta } from '$lib/services';
+
+export const load: PageLoad = () => {
+  return {
+    services: getServices(),
+    meta: servicesIndexMeta
+  };
+};
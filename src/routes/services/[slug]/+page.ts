@@ -0,0 +1,16 @@
+import { error } from '@sveltejs/kit';
+import type { EntryGenerator, PageLoad } from './$types';
+import { getRelatedCaseStudies, getService, getServiceMeta, getServices } from '$lib/services';
+
+export const entries: EntryGenerator = () => getServices().map((service) => ({ slug: service.slug }));
+
+export const load: PageLoad = ({ params }) => {
+  const service = getService(params.slug);
+  if (!service) error(404, 'Service not found');
+
+  return {
+    service,
+    caseStudies: getRelatedCaseStudies(service),
+    meta: getServiceMeta(service)
+  };
+};
@@ -0,0 +1,33 @@
+import { error } from '@sveltejs/kit';
+import type { EntryGenerator, RequestHandler } from './$types';
+import { site } from '$lib/config/site';
+import { chunkSitemapEntries, collectSitemapEntries, renderUrlset } from '$lib/seo/sitemap';
+import { getSitemapPages } from '$lib/server/sitemap';
+
+export const prerender = true;
+
+function getChunks() {
+  return chunkSitemapEntries(collectSitemapEntries(site, getSitemapPages()));
+}
+
+// Numbered sitemaps only exist once /sitemap.xml has become an index
+export const entries: EntryGenerator = () => {
+  const chunks = getChunks();
+  return chunks.length > 1 ? chunks.map((_, index) => ({ page: String(index + 1) })) : [];
+};
+
+export const GET: RequestHandler = async ({ params }) => {
+  const chunks = getChunks();
+  const index = Number(params.page) - 1;
+
+  if (chunks.length <= 1 || !Number.isInteger(index) || !chunks[index]) {
+    error(404, 'Sitemap not found');
+  }
+
+  return new Response(renderUrlset(chunks[index]), {
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Cache-Control': 'public, max-age=3600'
+    }
+  });
+};
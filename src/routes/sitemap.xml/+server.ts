@@ -0,0 +1,15 @@
+import type { RequestHandler } from './$types';
+import { site } from '$lib/config/site';
+import { renderSitemap } from '$lib/seo/sitemap';
+import { getSitemapPages } from '$lib/server/sitemap';
+
+export const prerender = true;
+
+export const GET: RequestHandler = async () => {
+  return new Response(renderSitemap(site, getSitemapPages()), {
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Cache-Control': 'public, max-age=3600'
+    }
+  });
+};
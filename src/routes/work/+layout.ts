@@ -0,0 +1,2 @@
+// Case studies only change on deploy, so every work page is static HTML
+export const prerender = true;
@@ -0,0 +1,10 @@
+import type { PageLoad } from './$types';
+import { getCaseStudies, getFilterOptions, workIndexMeta } from '$lib/work';
+
+export const load: PageLoad = () => {
+  return {
+    studies: getCaseStudies(),
+    filterOptions: getFilterOptions(),
+    meta: workIndexMeta
+  };
+};
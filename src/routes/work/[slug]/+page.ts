@@ -0,0 +1,18 @@
+import { error } from '@sveltejs/kit';
+import type { EntryGenerator, PageLoad } from './$types';
+import { getCaseStudies, getCaseStudy, getCaseStudyMeta } from '$lib/work';
+
+export const entries: EntryGenerator = () => getCaseStudies().map((study) => ({ slug: study.slug }));
+
+export const load: PageLoad = ({ params }) => {
+  const study = getCaseStudy(params.slug);
+  if (!study) error(404, 'Case study not found');
+
+  return {
+    study,
+    more: getCaseStudies()
+      .filter((other) => other.slug !== study.slug)
+      .slice(0, 2),
+    meta: getCaseStudyMeta(study)
+  };
+};
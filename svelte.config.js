@@ -1,10 +1,14 @@
 // svelte.config.js
 import adapter from '@sveltejs/adapter-vercel';
 import { vitePreprocess } from '@sveltejs/vite-plugin-svelte';
+import { mdsvex } from 'mdsvex';
+import { isOptionalPrerenderRoute, prerenderEntries } from './src/lib/config/routes.js';
 
 /** @type {import('@sveltejs/kit').Config} */
 const config = {
-  preprocess: vitePreprocess(),
+  // Blog posts in src/content/blog are Markdown compiled to components
+  extensions: ['.svelte', '.md'],
+  preprocess: [vitePreprocess(), mdsvex({ extensions: ['.md'] })],
   
   kit: {
     adapter: adapter({
@@ -19,15 +23,14 @@ const config = {
     
     // Pre-render configuration for marketing sites
     prerender: {
-      entries: [
-        '/',
-        '/about',
-        '/services',
-        '/portfolio', 
-        '/contact'
-        // Add all your static routes here
-      ],
-      handleMissingId: 'warn'
+      // Register new static routes in src/lib/config/routes.js
+      entries: prerenderEntries(),
+      handleMissingId: 'warn',
+      handleUnseenRoutes: ({ routes, message }) => {
+        if (!routes.every(isOptionalPrerenderRoute)) {
+          throw new Error(message);
+        }
+      }
     }
   }
 };